@@ -0,0 +1,44 @@
+import { readFileSync } from "node:fs";
+import { EmulatorDesign, QsysEmulator } from "./qsys-emulator";
+
+// usage: node dist/emulator/cli.js <design.json> [--port 1710] [--host 127.0.0.1] [--username user --password secret]
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+
+  return index !== -1 ? args[index + 1] : undefined;
+};
+
+const designPath = args.find((arg, index) => !arg.startsWith("--") && !args[index - 1]?.startsWith("--"));
+if (!designPath) {
+  console.error(
+    "Usage: qsys-emulator <design.json> [--port 1710] [--host 127.0.0.1] [--username user --password secret]",
+  );
+  process.exit(1);
+}
+
+const design = JSON.parse(readFileSync(designPath).toString()) as EmulatorDesign;
+const emulator = new QsysEmulator(design, {
+  port: option("port") !== undefined ? parseInt(option("port")!, 10) : undefined,
+  host: option("host"),
+  username: option("username"),
+  password: option("password"),
+});
+
+emulator.on("request", (message: { method?: string }) => {
+  console.log(`> ${message.method}`);
+});
+
+emulator
+  .start()
+  .then((port) => {
+    console.log(`Emulating Q-SYS Core with design "${design.DesignName}" on port ${port}.`);
+  })
+  .catch((e) => {
+    console.error((e as Error).message);
+    process.exit(1);
+  });
+
+process.on("SIGINT", () => {
+  void emulator.stop().then(() => process.exit(0));
+});
@@ -0,0 +1,967 @@
+import { EventEmitter } from "node:events";
+import { AddressInfo, createServer, Server, Socket } from "node:net";
+import {
+  ChangeGroupChange,
+  QSysApiErrorCode,
+  QsysMessage,
+  QSysResponseComonentsItemControl,
+  StatusParams,
+} from "../nodes/qsys-config/qsys-config";
+
+export type EmulatorControlType = "Float" | "Integer" | "Boolean" | "String" | "Trigger";
+
+export interface EmulatorControlDefinition {
+  Name: string;
+  Type?: EmulatorControlType;
+  Value?: number | string | boolean;
+  ValueMin?: number;
+  ValueMax?: number;
+  Direction?: "Read/Write" | "Write" | "Read";
+}
+
+export interface EmulatorComponentDefinition {
+  Name: string;
+  Type: string;
+  Controls?: EmulatorControlDefinition[];
+  // generates the controls of a mixer of the given size
+  Mixer?: {
+    Inputs: number;
+    Outputs: number;
+    Cues?: number;
+  };
+  // generates the controls of a snapshot bank with the given number of snapshots
+  Snapshots?: number;
+  // generates the playback state of a loop player, files not listed are reported as missing
+  LoopPlayer?: {
+    Outputs: number;
+    Files?: string[];
+  };
+}
+
+export interface EmulatorDesign {
+  DesignName: string;
+  DesignCode: string;
+  Controls?: EmulatorControlDefinition[];
+  Components?: EmulatorComponentDefinition[];
+  // zones and zone tags of the paging system
+  Paging?: {
+    Zones: number;
+    ZoneTags?: string[];
+  };
+}
+
+export interface EmulatorOptions {
+  port?: number;
+  host?: string;
+  username?: string;
+  password?: string;
+  state?: StatusParams["State"];
+}
+
+interface EmulatorControl extends Required<Omit<EmulatorControlDefinition, "ValueMin" | "ValueMax">> {
+  ValueMin?: number;
+  ValueMax?: number;
+}
+
+interface EmulatorComponent {
+  Name: string;
+  Type: string;
+  Controls: Map<string, EmulatorControl>;
+}
+
+interface ChangeGroupState {
+  // references are either a named control or "<component>\u0000<control>"
+  controls: Set<string>;
+  sent: Map<string, unknown>;
+  autoPoll?: NodeJS.Timeout;
+}
+
+interface Session {
+  socket: Socket;
+  loggedOn: boolean;
+  changeGroups: Map<string, ChangeGroupState>;
+}
+
+class EmulatorError extends Error {
+  public readonly code: QSysApiErrorCode;
+
+  constructor(code: QSysApiErrorCode, message: string) {
+    super(message);
+
+    this.code = code;
+  }
+}
+
+type Params = Record<string, any>;
+
+// Stand-in for a Q-SYS Core speaking QRC, backed by a design description instead of a running design
+export class QsysEmulator extends EventEmitter {
+  protected options: EmulatorOptions;
+
+  protected design!: EmulatorDesign;
+
+  protected controls: Map<string, EmulatorControl> = new Map<string, EmulatorControl>();
+
+  protected components: Map<string, EmulatorComponent> = new Map<string, EmulatorComponent>();
+
+  protected state: StatusParams["State"];
+
+  protected server: Server | undefined = undefined;
+
+  protected sessions: Set<Session> = new Set<Session>();
+
+  // status pushes of a page go to the session that submitted it
+  protected pages: Map<number, Session> = new Map<number, Session>();
+
+  protected lastPageId: number = 0;
+
+  // while paused, responses and notifications are held back as if the core hung
+  protected held: { session: Session; message: object }[] | undefined = undefined;
+
+  constructor(design: EmulatorDesign, options: EmulatorOptions = {}) {
+    super();
+
+    this.options = options;
+    this.state = options.state ?? "Active";
+    this.loadDesign(design);
+  }
+
+  public async start(): Promise<number> {
+    const server = createServer((socket) => this.accept(socket));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 1710, this.options.host ?? "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    return (server.address() as AddressInfo).port;
+  }
+
+  public async stop(): Promise<void> {
+    this.sessions.forEach((session) => this.closeSession(session));
+
+    const server = this.server;
+    this.server = undefined;
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  public pause(): void {
+    this.held ??= [];
+  }
+
+  public resume(): void {
+    const held = this.held ?? [];
+    this.held = undefined;
+
+    held.forEach((entry) => this.write(entry.session, entry.message));
+  }
+
+  public getStatus(): StatusParams {
+    return {
+      State: this.state,
+      DesignName: this.design.DesignName,
+      DesignCode: this.design.DesignCode,
+      IsRedundant: false,
+      IsEmulator: true,
+    };
+  }
+
+  public setState(state: StatusParams["State"]): void {
+    this.state = state;
+    this.broadcast("EngineStatus", this.getStatus());
+  }
+
+  // replaces the running design, a real core drops all connections while restarting
+  public loadDesign(design: EmulatorDesign, restart: boolean = false): void {
+    this.design = design;
+    this.controls = new Map<string, EmulatorControl>();
+    this.components = new Map<string, EmulatorComponent>();
+
+    (design.Controls ?? []).forEach((control) => {
+      this.controls.set(control.Name, this.createControl(control));
+    });
+
+    (design.Components ?? []).forEach((definition) => {
+      const component: EmulatorComponent = {
+        Name: definition.Name,
+        Type: definition.Type,
+        Controls: new Map<string, EmulatorControl>(),
+      };
+
+      [...(definition.Controls ?? []), ...this.generateControls(definition)].forEach((control) => {
+        component.Controls.set(control.Name, this.createControl(control));
+      });
+
+      this.components.set(component.Name, component);
+    });
+
+    if (restart) {
+      this.sessions.forEach((session) => this.closeSession(session));
+    } else {
+      this.broadcast("EngineStatus", this.getStatus());
+    }
+  }
+
+  // changes a control as if it has been operated on the core, e.g. from a UCI
+  public setValue(control: string, value: unknown, component?: string): void {
+    this.applyValue(this.getControl(control, component), value);
+  }
+
+  public getValue(control: string, component?: string): unknown {
+    return this.getControl(control, component).Value;
+  }
+
+  protected accept(socket: Socket): void {
+    const session: Session = {
+      socket: socket,
+      loggedOn: !this.options.username,
+      changeGroups: new Map<string, ChangeGroupState>(),
+    };
+    let rx: number[] = [];
+
+    this.sessions.add(session);
+    this.emit("connection", socket);
+
+    socket.on("data", (data) => {
+      for (const byte of data) {
+        if (byte !== 0x0) {
+          rx.push(byte);
+          continue;
+        }
+
+        const frame = Buffer.from(rx).toString();
+        rx = [];
+
+        this.receive(session, frame);
+      }
+    });
+
+    socket.on("error", () => {
+      this.closeSession(session);
+    });
+
+    socket.on("close", () => {
+      this.closeSession(session);
+    });
+
+    this.notify(session, "EngineStatus", this.getStatus());
+  }
+
+  protected closeSession(session: Session): void {
+    session.changeGroups.forEach((group) => clearInterval(group.autoPoll));
+    session.changeGroups.clear();
+    session.socket.destroy();
+
+    this.sessions.delete(session);
+  }
+
+  protected receive(session: Session, frame: string): void {
+    let message: Partial<QsysMessage>;
+
+    try {
+      message = JSON.parse(frame) as Partial<QsysMessage>;
+    } catch {
+      this.write(session, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+
+      return;
+    }
+
+    this.emit("request", message);
+
+    const id = message.id ?? null;
+    if (typeof message.method !== "string") {
+      this.write(session, { jsonrpc: "2.0", id: id, error: { code: -32600, message: "Invalid request" } });
+
+      return;
+    }
+
+    try {
+      const result = this.handle(session, message.method, (message.params || {}) as Params, id);
+
+      if (result !== undefined && id !== null) {
+        this.write(session, { jsonrpc: "2.0", id: id, result: result });
+      }
+    } catch (e) {
+      const error = e instanceof EmulatorError ? e : new EmulatorError(-32603, (e as Error).message);
+
+      this.write(session, { jsonrpc: "2.0", id: id, error: { code: error.code, message: error.message } });
+    }
+  }
+
+  protected handle(session: Session, method: string, params: Params, id: number | null): unknown {
+    switch (method) {
+      case "Logon":
+        if (
+          this.options.username &&
+          (params.User !== this.options.username || params.Password !== this.options.password)
+        ) {
+          throw new EmulatorError(10, "Logon required");
+        }
+
+        session.loggedOn = true;
+
+        return true;
+
+      case "NoOp":
+        return true;
+
+      case "StatusGet":
+        return {
+          Platform: "Emulator",
+          ...this.getStatus(),
+          Status: {
+            Code: 0,
+            String: "OK",
+          },
+        };
+
+      default:
+        break;
+    }
+
+    if (!session.loggedOn) {
+      throw new EmulatorError(10, "Logon required");
+    }
+
+    if (this.state !== "Active") {
+      throw new EmulatorError(-32604, "Core is on standby");
+    }
+
+    const [group] = method.split(".");
+    switch (group) {
+      case "Control":
+        return this.handleControl(method, params);
+
+      case "Component":
+        return this.handleComponent(method, params);
+
+      case "Mixer":
+        return this.handleMixer(method, params);
+
+      case "Snapshot":
+        return this.handleSnapshot(method, params);
+
+      case "ChangeGroup":
+        return this.handleChangeGroup(session, method, params, id);
+
+      case "LoopPlayer":
+        return this.handleLoopPlayer(method, params);
+
+      case "PA":
+        return this.handlePa(session, method, params);
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  protected handleControl(method: string, params: Params | string[]): unknown {
+    switch (method) {
+      case "Control.Get": {
+        const names = Array.isArray(params) ? params : [params.Name as string];
+
+        return names.map((name) => this.describe(this.getControl(`${name}`)));
+      }
+
+      case "Control.Set": {
+        const control = this.getControl((params as Params).Name as string);
+        this.applyValue(control, (params as Params).Value);
+
+        return this.describe(control);
+      }
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  protected handleComponent(method: string, params: Params): unknown {
+    switch (method) {
+      case "Component.GetComponents":
+        return [...this.components.values()].map((component) => {
+          return {
+            ID: component.Name,
+            Name: component.Name,
+            Type: component.Type,
+            Properties: [],
+            ControlSource: 1,
+            Controls: null,
+          };
+        });
+
+      case "Component.GetControls": {
+        const component = this.getComponent(params.Name as string);
+
+        return {
+          Name: component.Name,
+          Controls: [...component.Controls.values()].map((control) => this.describeFull(control)),
+        };
+      }
+
+      case "Component.Get": {
+        const component = this.getComponent(params.Name as string);
+
+        return {
+          Name: component.Name,
+          Controls: ((params.Controls ?? []) as Params[]).map((control) =>
+            this.describe(this.getControl(control.Name as string, component.Name)),
+          ),
+        };
+      }
+
+      case "Component.Set": {
+        const component = this.getComponent(params.Name as string);
+        const controls = ((params.Controls ?? []) as Params[]).map((control) => {
+          return { control: this.getControl(control.Name as string, component.Name), value: control.Value };
+        });
+
+        // look up all controls before changing any of them
+        controls.forEach(({ control, value }) => this.applyValue(control, value));
+
+        return true;
+      }
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  protected handleMixer(method: string, params: Params): unknown {
+    const component = this.getComponent(params.Name as string);
+    if (component.Type !== "mixer") {
+      throw new EmulatorError(7, "Unknown component name");
+    }
+
+    const count = (prefix: string) => {
+      const pattern = new RegExp(`^${prefix}\\.(\\d+)\\.`);
+
+      return Math.max(0, ...[...component.Controls.keys()].map((name) => parseInt(pattern.exec(name)?.[1] ?? "0", 10)));
+    };
+    const ins = () => this.parseChannels(params.Inputs, count("input"));
+    const outs = () => this.parseChannels(params.Outputs, count("output"));
+    const cues = () => this.parseChannels(params.Cues, count("cue"));
+
+    const names: string[] = [];
+    const property = /^Mixer\.Set(?:CrossPoint|InputCue|Input|Output|Cue)(\w+)$/.exec(method)?.[1]?.toLowerCase();
+
+    switch (method) {
+      case "Mixer.SetCrossPointGain":
+      case "Mixer.SetCrossPointDelay":
+      case "Mixer.SetCrossPointMute":
+      case "Mixer.SetCrossPointSolo":
+        ins().forEach((input) => outs().forEach((output) => names.push(`input.${input}.output.${output}.${property}`)));
+        break;
+
+      case "Mixer.SetInputGain":
+      case "Mixer.SetInputMute":
+      case "Mixer.SetInputSolo":
+        ins().forEach((input) => names.push(`input.${input}.${property}`));
+        break;
+
+      case "Mixer.SetOutputGain":
+      case "Mixer.SetOutputMute":
+        outs().forEach((output) => names.push(`output.${output}.${property}`));
+        break;
+
+      case "Mixer.SetCueGain":
+      case "Mixer.SetCueMute":
+        cues().forEach((cue) => names.push(`cue.${cue}.${property}`));
+        break;
+
+      case "Mixer.SetInputCueEnable":
+      case "Mixer.SetInputCueAfl":
+        ins().forEach((input) => cues().forEach((cue) => names.push(`input.${input}.cue.${cue}.${property}`)));
+        break;
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+
+    names.forEach((name) => this.applyValue(this.getControl(name, component.Name), params.Value));
+
+    return true;
+  }
+
+  protected handleSnapshot(method: string, params: Params): unknown {
+    const component = this.getComponent(params.Name as string);
+    const bank = parseInt(`${params.Bank}`, 10);
+
+    if (component.Type !== "snapshot_controller") {
+      throw new EmulatorError(7, "Unknown component name");
+    }
+
+    if (!component.Controls.has(`load.${bank}`)) {
+      throw new EmulatorError(-32602, "Invalid params");
+    }
+
+    switch (method) {
+      case "Snapshot.Load":
+      case "Snapshot.Save":
+        // the emulator does not know the controls of a snapshot, the loaded one is considered to match
+        component.Controls.forEach((control) => {
+          const match = /^(match|last)\.(\d+)$/.exec(control.Name);
+          if (match) {
+            this.applyValue(control, parseInt(match[2], 10) === bank);
+          }
+        });
+
+        return true;
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  protected handleLoopPlayer(method: string, params: Params): unknown {
+    const component = this.getComponent(params.Name as string);
+    const definition = this.design.Components?.find((item) => item.Name === component.Name);
+
+    if (!definition?.LoopPlayer) {
+      throw new EmulatorError(7, "Unknown component name");
+    }
+
+    const getOutput = (output: unknown): number => {
+      const channel = parseInt(`${output as number}`, 10);
+      if (!component.Controls.has(`output.${channel}.playing`)) {
+        throw new EmulatorError(-32602, "Invalid params");
+      }
+
+      return channel;
+    };
+
+    switch (method) {
+      case "LoopPlayer.Start": {
+        const files = (params.Files ?? []) as { Name: string; Output: number }[];
+        if (!Array.isArray(files) || files.length === 0) {
+          throw new EmulatorError(-32602, "Invalid params");
+        }
+
+        const outputs = files.map((file) => getOutput(file.Output));
+        const known = definition.LoopPlayer.Files;
+
+        files.forEach((file, index) => {
+          if (known && !known.includes(file.Name)) {
+            // the core checks the files once the job has been accepted
+            setImmediate(() => {
+              this.broadcast("LoopPlayer.Error", {
+                Name: component.Name,
+                Output: outputs[index],
+                Error: `File not found: ${file.Name}`,
+              });
+            });
+
+            return;
+          }
+
+          this.applyValue(this.getControl(`output.${outputs[index]}.file`, component.Name), file.Name);
+          this.applyValue(this.getControl(`output.${outputs[index]}.playing`, component.Name), true);
+        });
+
+        return true;
+      }
+
+      case "LoopPlayer.Stop":
+      case "LoopPlayer.Cancel":
+        ((params.Outputs ?? []) as unknown[]).map(getOutput).forEach((output) => {
+          this.applyValue(this.getControl(`output.${output}.playing`, component.Name), false);
+
+          if (method === "LoopPlayer.Cancel") {
+            this.applyValue(this.getControl(`output.${output}.file`, component.Name), "");
+          }
+        });
+
+        return true;
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  protected handlePa(session: Session, method: string, params: Params): unknown {
+    const paging = this.design.Paging;
+    if (!paging) {
+      throw new EmulatorError(-32601, "Method not found");
+    }
+
+    if (method === "PA.PageSubmit") {
+      const zones = (params.Zones ?? []) as number[];
+      const zoneTags = (params.ZoneTags ?? []) as string[];
+
+      if (
+        zones.length + zoneTags.length === 0 ||
+        zones.some((zone) => !Number.isInteger(zone) || zone < 1 || zone > paging.Zones) ||
+        zoneTags.some((tag) => !(paging.ZoneTags ?? []).includes(tag))
+      ) {
+        throw new EmulatorError(-32602, "Invalid params");
+      }
+
+      if (params.Mode === "live" ? typeof params.Station !== "number" : !params.Message) {
+        throw new EmulatorError(-32602, "Invalid params");
+      }
+
+      const pageId = ++this.lastPageId;
+      this.pages.set(pageId, session);
+      this.setPageState(pageId, params.Start !== false ? "playing" : "queued");
+
+      return { PageID: pageId };
+    }
+
+    const pageId = params.PageID as number;
+    if (!this.pages.has(pageId)) {
+      throw new EmulatorError(-32602, "Invalid params");
+    }
+
+    switch (method) {
+      case "PA.PageStart":
+        this.setPageState(pageId, "playing");
+
+        return true;
+
+      case "PA.PageStop":
+        this.setPageState(pageId, "done");
+
+        return true;
+
+      case "PA.PageCancel":
+        this.setPageState(pageId, "cancelled");
+
+        return true;
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  // the status is pushed shortly after the response, a page ends with its final state
+  protected setPageState(pageId: number, state: string): void {
+    const session = this.pages.get(pageId)!;
+
+    if (state === "done" || state === "cancelled") {
+      this.pages.delete(pageId);
+    }
+
+    setTimeout(() => {
+      this.notify(session, "PA.PageStatus", { PageID: pageId, State: state });
+    }, 10);
+  }
+
+  protected handleChangeGroup(session: Session, method: string, params: Params, id: number | null): unknown {
+    const groupId = params.Id as string;
+    if (typeof groupId !== "string") {
+      throw new EmulatorError(-32602, "Invalid params");
+    }
+
+    let group = session.changeGroups.get(groupId);
+
+    switch (method) {
+      case "ChangeGroup.AddControl":
+      case "ChangeGroup.AddComponentControl": {
+        const references =
+          method === "ChangeGroup.AddControl"
+            ? ((params.Controls ?? []) as string[]).map((name) => {
+                this.getControl(name);
+
+                return name;
+              })
+            : ((params.Component?.Controls ?? []) as Params[]).map((control) => {
+                const component = params.Component.Name as string;
+                this.getControl(control.Name as string, component);
+
+                return `${component}\u0000${control.Name as string}`;
+              });
+
+        if (!group) {
+          group = { controls: new Set<string>(), sent: new Map<string, unknown>() };
+          session.changeGroups.set(groupId, group);
+        }
+
+        references.forEach((reference) => group!.controls.add(reference));
+
+        return true;
+      }
+
+      case "ChangeGroup.Remove":
+        this.requireGroup(group).controls.forEach((reference) => {
+          if (((params.Controls ?? []) as string[]).includes(reference)) {
+            group!.controls.delete(reference);
+            group!.sent.delete(reference);
+          }
+        });
+
+        return true;
+
+      case "ChangeGroup.Poll":
+        return { Id: groupId, Changes: this.collectChanges(this.requireGroup(group)) };
+
+      case "ChangeGroup.AutoPoll": {
+        const autoPollGroup = this.requireGroup(group);
+        const rate = Math.max(0.01, parseFloat(`${params.Rate}`) || 1);
+
+        clearInterval(autoPollGroup.autoPoll);
+        autoPollGroup.autoPoll = setInterval(() => {
+          const changes = this.collectChanges(autoPollGroup);
+
+          if (changes.length !== 0) {
+            this.write(session, { jsonrpc: "2.0", id: id, result: { Id: groupId, Changes: changes } });
+          }
+        }, rate * 1000);
+
+        return { Id: groupId, Changes: this.collectChanges(autoPollGroup) };
+      }
+
+      case "ChangeGroup.Invalidate":
+        this.requireGroup(group).sent.clear();
+
+        return true;
+
+      case "ChangeGroup.Clear":
+        this.requireGroup(group).controls.clear();
+        group!.sent.clear();
+
+        return true;
+
+      case "ChangeGroup.Destroy":
+        clearInterval(this.requireGroup(group).autoPoll);
+        session.changeGroups.delete(groupId);
+
+        return true;
+
+      default:
+        throw new EmulatorError(-32601, "Method not found");
+    }
+  }
+
+  protected requireGroup(group: ChangeGroupState | undefined): ChangeGroupState {
+    if (!group) {
+      throw new EmulatorError(6, "Unknown change group");
+    }
+
+    return group;
+  }
+
+  protected collectChanges(group: ChangeGroupState): ChangeGroupChange[] {
+    const changes: ChangeGroupChange[] = [];
+
+    group.controls.forEach((reference) => {
+      const [first, second] = reference.split("\u0000");
+      const component = second !== undefined ? first : undefined;
+      const name = second ?? first;
+
+      const control = component ? this.components.get(component)?.Controls.get(name) : this.controls.get(name);
+      if (!control || (group.sent.has(reference) && group.sent.get(reference) === control.Value)) {
+        return;
+      }
+
+      group.sent.set(reference, control.Value);
+      changes.push({
+        Component: component,
+        ...this.describe(control),
+      });
+    });
+
+    return changes;
+  }
+
+  protected getComponent(name: string): EmulatorComponent {
+    const component = this.components.get(name);
+    if (!component) {
+      throw new EmulatorError(7, "Unknown component name");
+    }
+
+    return component;
+  }
+
+  protected getControl(name: string, component?: string): EmulatorControl {
+    const control = component ? this.getComponent(component).Controls.get(name) : this.controls.get(name);
+    if (!control) {
+      throw new EmulatorError(8, "Unknown control");
+    }
+
+    return control;
+  }
+
+  protected applyValue(control: EmulatorControl, value: unknown): void {
+    switch (control.Type) {
+      case "Boolean":
+        control.Value = value === true || value === 1 || value === "1" || value === "true";
+        break;
+
+      case "Float":
+      case "Integer": {
+        let number = typeof value === "number" ? value : parseFloat(`${value as string}`);
+        if (isNaN(number)) {
+          throw new EmulatorError(-32602, "Invalid params");
+        }
+
+        if (control.Type === "Integer") {
+          number = Math.round(number);
+        }
+
+        control.Value = Math.min(control.ValueMax ?? number, Math.max(control.ValueMin ?? number, number));
+        break;
+      }
+
+      case "Trigger":
+        break;
+
+      default:
+        control.Value = `${value as string}`;
+        break;
+    }
+  }
+
+  protected describe(control: EmulatorControl): Omit<ChangeGroupChange, "Component"> {
+    let position = 0;
+
+    if (typeof control.Value === "boolean") {
+      position = control.Value ? 1 : 0;
+    } else if (typeof control.Value === "number" && control.ValueMin !== undefined && control.ValueMax !== undefined) {
+      position = (control.Value - control.ValueMin) / (control.ValueMax - control.ValueMin || 1);
+    }
+
+    return {
+      Name: control.Name,
+      Value: control.Value,
+      String: typeof control.Value === "number" ? `${Math.round(control.Value * 100) / 100}` : `${control.Value}`,
+      Position: position,
+    };
+  }
+
+  protected describeFull(control: EmulatorControl): QSysResponseComonentsItemControl {
+    const state = this.describe(control);
+
+    return {
+      Name: control.Name,
+      Type: control.Type,
+      Value: state.Value as string | boolean,
+      String: state.String,
+      Position: state.Position!,
+      Direction: control.Direction,
+      ValueMin: control.ValueMin,
+      ValueMax: control.ValueMax,
+      StringMin: control.ValueMin !== undefined ? `${control.ValueMin}` : undefined,
+      StringMax: control.ValueMax !== undefined ? `${control.ValueMax}` : undefined,
+    } as QSysResponseComonentsItemControl;
+  }
+
+  protected createControl(definition: EmulatorControlDefinition): EmulatorControl {
+    const type = definition.Type ?? "Float";
+    const fallback = type === "Boolean" ? false : type === "String" ? "" : (definition.ValueMin ?? 0);
+
+    return {
+      Name: definition.Name,
+      Type: type,
+      Value: definition.Value ?? fallback,
+      ValueMin: definition.ValueMin,
+      ValueMax: definition.ValueMax,
+      Direction: definition.Direction ?? "Read/Write",
+    };
+  }
+
+  protected generateControls(definition: EmulatorComponentDefinition): EmulatorControlDefinition[] {
+    const controls: EmulatorControlDefinition[] = [];
+    const gain = (name: string): EmulatorControlDefinition => {
+      return { Name: name, Type: "Float", Value: 0, ValueMin: -100, ValueMax: 20 };
+    };
+    const toggle = (name: string): EmulatorControlDefinition => {
+      return { Name: name, Type: "Boolean", Value: false };
+    };
+
+    if (definition.Mixer) {
+      const { Inputs: inputs, Outputs: outputs, Cues: cues = 0 } = definition.Mixer;
+
+      for (let input = 1; input <= inputs; input++) {
+        controls.push(gain(`input.${input}.gain`), toggle(`input.${input}.mute`), toggle(`input.${input}.solo`));
+
+        for (let output = 1; output <= outputs; output++) {
+          controls.push(
+            gain(`input.${input}.output.${output}.gain`),
+            toggle(`input.${input}.output.${output}.mute`),
+            toggle(`input.${input}.output.${output}.solo`),
+            { Name: `input.${input}.output.${output}.delay`, Type: "Float", Value: 0, ValueMin: 0, ValueMax: 0.5 },
+          );
+        }
+
+        for (let cue = 1; cue <= cues; cue++) {
+          controls.push(toggle(`input.${input}.cue.${cue}.enable`), toggle(`input.${input}.cue.${cue}.afl`));
+        }
+      }
+
+      for (let output = 1; output <= outputs; output++) {
+        controls.push(gain(`output.${output}.gain`), toggle(`output.${output}.mute`));
+      }
+
+      for (let cue = 1; cue <= cues; cue++) {
+        controls.push(gain(`cue.${cue}.gain`), toggle(`cue.${cue}.mute`));
+      }
+    }
+
+    for (let snapshot = 1; snapshot <= (definition.Snapshots ?? 0); snapshot++) {
+      controls.push(
+        { Name: `load.${snapshot}`, Type: "Trigger" },
+        { Name: `save.${snapshot}`, Type: "Trigger" },
+        { ...toggle(`match.${snapshot}`), Direction: "Read" },
+        { ...toggle(`last.${snapshot}`), Direction: "Read" },
+      );
+    }
+
+    for (let output = 1; output <= (definition.LoopPlayer?.Outputs ?? 0); output++) {
+      controls.push(
+        { ...toggle(`output.${output}.playing`), Direction: "Read" },
+        { Name: `output.${output}.file`, Type: "String", Value: "", Direction: "Read" },
+      );
+    }
+
+    return controls;
+  }
+
+  // channel selections are given as "*", "1 2 3" or ranges like "1-4"
+  protected parseChannels(selection: unknown, count: number): number[] {
+    const channels: number[] = [];
+
+    `${(selection as string) ?? ""}`
+      .split(/[\s,]+/)
+      .filter((item) => item.length !== 0)
+      .forEach((item) => {
+        const range = item === "*" ? [1, count] : item.split("-").map((value) => parseInt(value, 10));
+        const [from, to = from] = range;
+
+        if (isNaN(from) || isNaN(to) || from < 1 || to > count) {
+          throw new EmulatorError(9, "Illegal mixer channel index");
+        }
+
+        for (let channel = from; channel <= to; channel++) {
+          channels.push(channel);
+        }
+      });
+
+    return channels;
+  }
+
+  protected notify(session: Session, method: string, params: unknown): void {
+    this.write(session, { jsonrpc: "2.0", method: method, params: params });
+  }
+
+  protected broadcast(method: string, params: unknown): void {
+    this.sessions.forEach((session) => this.notify(session, method, params));
+  }
+
+  protected write(session: Session, message: object): void {
+    if (this.held) {
+      this.held.push({ session: session, message: message });
+
+      return;
+    }
+
+    if (!session.socket.destroyed) {
+      session.socket.write(Buffer.concat([Buffer.from(JSON.stringify(message)), Buffer.from([0x0])]));
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
+import { QSysResponseComonentsItem, QSysResponseComonentsItemControl } from "../qsys-config/qsys-config";
+
+declare const RED: EditorRED;
+
+interface Defaults extends EditorNodeProperties {
+  controls: string;
+  component: string;
+  componentControls: string;
+  rate: number;
+  core: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
+}
+
+type AutoCompleteResult = {
+  value: string;
+  label: string | JQuery;
+  i: number;
+};
+
+RED.nodes.registerType("qsys-change-group", {
+  category: "Q-SYS",
+  paletteLabel: "Q-SYS Change Group",
+  color: "#1a7ab9",
+  icon: "qsys-change-group.svg",
+  inputs: 1,
+  outputs: 1,
+  defaults: {
+    name: {
+      value: "Q-SYS Change Group",
+      required: false,
+    },
+    core: {
+      value: "",
+      type: "qsys-config",
+    },
+    controls: {
+      value: "",
+      required: false,
+    },
+    component: {
+      value: "",
+      required: false,
+    },
+    componentControls: {
+      value: "",
+      required: false,
+    },
+    rate: {
+      value: 0.5,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
+  },
+  label: function () {
+    return this.name || "Q-SYS Change Group";
+  },
+  oneditprepare: function () {
+    const coreField = document.getElementById("node-input-core") as HTMLSelectElement;
+    const componentField = document.getElementById("node-input-component") as HTMLInputElement;
+    const controlCache = new Map<string, QSysResponseComonentsItemControl[]>();
+
+    const loadControls = (): JQuery.Promise<QSysResponseComonentsItemControl[]> => {
+      const key = `${coreField.value}/${componentField.value}`;
+      const cached = controlCache.get(key);
+      if (cached) {
+        return $.Deferred<QSysResponseComonentsItemControl[]>().resolve(cached).promise();
+      }
+
+      return $.ajax({
+        url: `qsys/${coreField.value}/components/${encodeURIComponent(componentField.value)}/controls`,
+        method: "GET",
+      }).then((response: QSysResponseComonentsItemControl[]) => {
+        controlCache.set(key, response);
+
+        return response;
+      });
+    };
+
+    // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
+    $("#node-input-componentControls").autoComplete({
+      minLength: 0,
+      search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
+        if (!coreField.value || !componentField.value) {
+          return;
+        }
+
+        // complete the last of the semicolon separated controls
+        const selected = value.split(";");
+        const search = (selected.pop() ?? "").trim().toLowerCase();
+
+        loadControls().done((response) => {
+          const matches: AutoCompleteResult[] = [];
+
+          response.forEach((control) => {
+            const i = control.Name.toLowerCase().indexOf(search);
+            if (i > -1 && !selected.includes(control.Name)) {
+              const details = [control.Type, control.Direction];
+              if (control.ValueMin !== undefined || control.ValueMax !== undefined) {
+                details.push(`${control.ValueMin} – ${control.ValueMax}`);
+              }
+              if (control.StringMin !== undefined || control.StringMax !== undefined) {
+                details.push(`${control.StringMin} – ${control.StringMax}`);
+              }
+
+              matches.push({
+                value: [...selected, control.Name].join(";"),
+                label: $("<span>")
+                  .text(control.Name)
+                  .append(
+                    $("<small>")
+                      .css("margin-left", "0.5em")
+                      .css("opacity", "0.6")
+                      .text(details.filter((detail) => !!detail).join(" · ")),
+                  ),
+                i: i,
+              });
+            }
+          });
+
+          matches.sort((a, b) => {
+            return a.i - b.i;
+          });
+
+          done(matches);
+        });
+      },
+    });
+
+    // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
+    $("#node-input-component").autoComplete({
+      search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
+        if (!this.core) {
+          return;
+        }
+
+        return $.ajax({
+          url: `qsys/${this.core}/components`,
+          method: "GET",
+          data: {
+            name: value,
+          },
+        }).done((response: QSysResponseComonentsItem[]) => {
+          const matches: AutoCompleteResult[] = [];
+
+          response.forEach((component) => {
+            const i = component.Name.toLowerCase().indexOf(value.toLowerCase());
+            if (i > -1) {
+              matches.push({
+                value: component.Name,
+                label: component.Name,
+                i: i,
+              });
+            }
+          });
+
+          matches.sort((a, b) => {
+            return a.i - b.i;
+          });
+
+          done(matches);
+        });
+      },
+    });
+  },
+  oneditsave: function () {
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
+} as EditorNodeDef<Defaults>);
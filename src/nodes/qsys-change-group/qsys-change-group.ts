@@ -0,0 +1,208 @@
+import { Node, NodeAPI, NodeDef } from "node-red";
+import {
+  ChangeGroupChange,
+  ChangeGroupComponent,
+  ChangeListener,
+  Config as QsysConfigNodeConfig,
+  ErrorDetails,
+  handleError,
+  QSysApiError,
+  QsysConfigNode,
+} from "../qsys-config/qsys-config";
+import { NodeMessage, NodeStatus } from "@node-red/registry";
+
+export interface Config extends NodeDef {
+  core: string;
+  controls: string;
+  component: string;
+  componentControls: string;
+  rate: number | string;
+  errorOutput: 0 | 1 | undefined;
+}
+
+export interface MessageOut extends NodeMessage {
+  topic: string;
+  payload: ChangeGroupChange;
+}
+
+export interface MessageError extends NodeMessage {
+  error?: ErrorDetails;
+}
+
+class NodeHandler {
+  protected node: Node<Config>;
+
+  protected config: Config;
+
+  protected nodeApi: NodeAPI;
+
+  protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
+
+  protected changeListener: ChangeListener;
+
+  constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
+    this.node = node;
+    this.config = config;
+    this.nodeApi = nodeApi;
+    this.core = this.nodeApi.nodes.getNode(config.core) as QsysConfigNode<QsysConfigNodeConfig>;
+
+    this.core.nodeHandler.registerStatusCallback(this.node.id, (_socket, status, error) => {
+      const nodeStatus: NodeStatus = {
+        fill: "grey",
+        shape: "dot",
+        text: "",
+      };
+
+      switch (status) {
+        case "Inactive":
+          nodeStatus.fill = "grey";
+          nodeStatus.text = "Inactive.";
+          break;
+
+        case "Error":
+          nodeStatus.fill = "red";
+          nodeStatus.text = error instanceof Error ? error.message : "Failure.";
+          break;
+
+        case "Connected":
+        case "Active":
+          nodeStatus.fill = "green";
+          nodeStatus.text = "Connected.";
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
+        default:
+          break;
+      }
+
+      this.node.status(nodeStatus);
+    });
+
+    this.changeListener = (change, groupId) => {
+      if (groupId !== this.node.id) {
+        return;
+      }
+
+      const message: MessageOut = {
+        topic: change.Component ? `${change.Component}.${change.Name}` : change.Name,
+        payload: {
+          Name: change.Name,
+          Component: change.Component,
+          Value: change.Value,
+          String: change.String,
+          Position: change.Position,
+        },
+      };
+
+      this.node.send(message);
+    };
+
+    this.core.nodeHandler.registerChangeListener(this.changeListener);
+
+    this.core.nodeHandler
+      .registerChangeGroup({
+        Id: this.node.id,
+        Controls: this.parseList(this.config.controls),
+        Components: this.getComponents(),
+        Rate: this.parseRate(this.config.rate),
+      })
+      .catch((e) => {
+        this.node.error(e as Error | QSysApiError);
+      });
+
+    this.core.nodeHandler.watchNames(this.node.id, {
+      controls: this.parseList(this.config.controls),
+      componentControls: this.getComponents().map((component) => {
+        return {
+          Name: component.Name,
+          Controls: component.Controls.map((control) => control.Name),
+        };
+      }),
+    });
+
+    this.node.on("close", (done: () => void) => {
+      this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unwatchNames(this.node.id);
+      this.core?.nodeHandler.unregisterChangeListener(this.changeListener);
+
+      this.core?.nodeHandler
+        .unregisterChangeGroup(this.node.id)
+        .catch((e) => {
+          this.node.debug(e);
+        })
+        .finally(() => {
+          done();
+        });
+    });
+
+    // re-emit the current state of all controls
+    this.node.on("input", (msg, _send, done) => {
+      this.core?.nodeHandler
+        .invalidateChangeGroup(this.node.id)
+        .catch((e) => {
+          handleError(
+            this.node,
+            e,
+            msg as MessageError,
+            { method: "ChangeGroup.Invalidate", params: { Id: this.node.id } },
+            this.config,
+          );
+        })
+        .finally(() => {
+          done();
+        });
+    });
+  }
+
+  protected getComponents(): ChangeGroupComponent[] {
+    const component = this.config.component?.trim();
+    const controls = this.parseList(this.config.componentControls);
+    if (!component || controls.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        Name: component,
+        Controls: controls.map((control) => {
+          return {
+            Name: control,
+          };
+        }),
+      },
+    ];
+  }
+
+  protected parseList(input: string | undefined): string[] {
+    if (!input) {
+      return [];
+    }
+
+    return input
+      .split(";")
+      .map((item) => item.trim())
+      .filter((item) => item.length !== 0);
+  }
+
+  protected parseRate(input: number | string | undefined): number {
+    const rate = typeof input === "string" ? parseFloat(input) : input;
+
+    if (rate === undefined || isNaN(rate) || rate <= 0) {
+      return 0.5;
+    }
+
+    return rate;
+  }
+}
+
+export default (RED: NodeAPI): void => {
+  RED.nodes.registerType("qsys-change-group", function (this: Node<Config>, config: Config) {
+    RED.nodes.createNode(this, config);
+
+    new NodeHandler(this, config, RED);
+  });
+};
@@ -0,0 +1,235 @@
+import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
+import { ComponentControlMethod } from "./qsys-component";
+import { QSysResponseComonentsItem, QSysResponseComonentsItemControl } from "../qsys-config/qsys-config";
+
+declare const RED: EditorRED;
+
+interface Defaults extends EditorNodeProperties {
+  codename: string;
+  controls: string;
+  method: ComponentControlMethod;
+  ramp: number | undefined;
+  core: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
+}
+
+type AutoCompleteResult = {
+  value: string;
+  label: string | JQuery;
+  i: number;
+};
+
+// controls of already loaded components, keyed by core and component name
+const qsysComponentControlCache = new Map<string, QSysResponseComonentsItemControl[]>();
+
+const qsysComponentReadOnlyControls = (core: string, component: string, controls: string): string[] => {
+  const available = qsysComponentControlCache.get(`${core}/${component}`) ?? [];
+
+  return controls
+    .split(";")
+    .map((control) => control.trim())
+    .filter((control) => {
+      return available.find((item) => item.Name === control)?.Direction === "Read";
+    });
+};
+
+RED.nodes.registerType("qsys-component", {
+  category: "Q-SYS",
+  paletteLabel: "Q-SYS Component",
+  color: "#1a7ab9",
+  icon: "qsys-component.svg",
+  inputs: 1,
+  outputs: 1,
+  defaults: {
+    name: {
+      value: "Q-SYS Component",
+      required: false,
+    },
+    core: {
+      value: "",
+      type: "qsys-config",
+    },
+    codename: {
+      value: "",
+      required: true,
+    },
+    controls: {
+      value: "",
+      required: false,
+      validate: function (value: string) {
+        if (this.method !== "Set") {
+          return true;
+        }
+
+        return qsysComponentReadOnlyControls(this.core, this.codename, value).length === 0;
+      },
+    },
+    method: {
+      value: "Get",
+      required: true,
+    },
+    ramp: {
+      value: undefined,
+      required: false,
+    },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
+  },
+  label: function () {
+    return this.name || "Q-SYS Component";
+  },
+  oneditprepare: function () {
+    const coreField = document.getElementById("node-input-core") as HTMLSelectElement;
+    const codenameField = document.getElementById("node-input-codename") as HTMLInputElement;
+    const controlsField = document.getElementById("node-input-controls") as HTMLInputElement;
+    const methodField = document.getElementById("node-input-method") as HTMLSelectElement;
+    const warning = document.getElementById("node-input-controls-warning") as HTMLDivElement;
+
+    const loadControls = (): JQuery.Promise<QSysResponseComonentsItemControl[]> => {
+      const key = `${coreField.value}/${codenameField.value}`;
+      const cached = qsysComponentControlCache.get(key);
+      if (cached) {
+        return $.Deferred<QSysResponseComonentsItemControl[]>().resolve(cached).promise();
+      }
+
+      return $.ajax({
+        url: `qsys/${coreField.value}/components/${encodeURIComponent(codenameField.value)}/controls`,
+        method: "GET",
+      }).then((response: QSysResponseComonentsItemControl[]) => {
+        qsysComponentControlCache.set(key, response);
+
+        return response;
+      });
+    };
+
+    const validateControls = () => {
+      const readOnly =
+        methodField.value === "Set"
+          ? qsysComponentReadOnlyControls(coreField.value, codenameField.value, controlsField.value)
+          : [];
+
+      warning.textContent = readOnly.length
+        ? RED._("qsys-component.warning.readOnly", { controls: readOnly.join(", ") })
+        : "";
+      warning.style.display = readOnly.length ? "block" : "none";
+    };
+
+    const methodChangeCallback = () => {
+      const element = document.getElementById("node-input-ramp")?.closest(".form-row") as HTMLDivElement | null;
+      if (element) {
+        element.style.display = methodField.value === "Set" ? "block" : "none";
+      }
+
+      validateControls();
+    };
+
+    methodField.addEventListener("change", methodChangeCallback);
+    methodChangeCallback();
+
+    controlsField.addEventListener("change", validateControls);
+    codenameField.addEventListener("change", () => {
+      if (coreField.value && codenameField.value) {
+        loadControls().always(validateControls);
+      }
+    });
+
+    if (coreField.value && codenameField.value) {
+      loadControls().always(validateControls);
+    }
+
+    // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
+    $("#node-input-controls").autoComplete({
+      minLength: 0,
+      search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
+        if (!coreField.value || !codenameField.value) {
+          return;
+        }
+
+        // complete the last of the semicolon separated controls
+        const selected = value.split(";");
+        const search = (selected.pop() ?? "").trim().toLowerCase();
+
+        loadControls().done((response) => {
+          const matches: AutoCompleteResult[] = [];
+
+          response.forEach((control) => {
+            const i = control.Name.toLowerCase().indexOf(search);
+            if (i > -1 && !selected.includes(control.Name)) {
+              const details = [control.Type, control.Direction];
+              if (control.ValueMin !== undefined || control.ValueMax !== undefined) {
+                details.push(`${control.ValueMin} – ${control.ValueMax}`);
+              }
+              if (control.StringMin !== undefined || control.StringMax !== undefined) {
+                details.push(`${control.StringMin} – ${control.StringMax}`);
+              }
+
+              matches.push({
+                value: [...selected, control.Name].join(";"),
+                label: $("<span>")
+                  .text(control.Name)
+                  .append(
+                    $("<small>")
+                      .css("margin-left", "0.5em")
+                      .css("opacity", "0.6")
+                      .text(details.filter((detail) => !!detail).join(" · ")),
+                  ),
+                i: i,
+              });
+            }
+          });
+
+          matches.sort((a, b) => {
+            return a.i - b.i;
+          });
+
+          done(matches);
+        });
+      },
+    });
+
+    // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
+    $("#node-input-codename").autoComplete({
+      search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
+        if (!this.core) {
+          return;
+        }
+
+        return $.ajax({
+          url: `qsys/${this.core}/components`,
+          method: "GET",
+          data: {
+            name: value,
+          },
+        }).done((response: QSysResponseComonentsItem[]) => {
+          const matches: AutoCompleteResult[] = [];
+
+          response.forEach((component) => {
+            const i = component.Name.toLowerCase().indexOf(value.toLowerCase());
+            if (i > -1) {
+              matches.push({
+                value: component.Name,
+                label: component.Name,
+                i: i,
+              });
+            }
+          });
+
+          matches.sort((a, b) => {
+            return a.i - b.i;
+          });
+
+          done(matches);
+        });
+      },
+    });
+  },
+  oneditsave: function () {
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
+} as EditorNodeDef<Defaults>);
@@ -0,0 +1,251 @@
+import { Node, NodeAPI, NodeDef } from "node-red";
+import {
+  Config as QsysConfigNodeConfig,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
+  QsysConfigNode,
+  QsysMessage,
+  QsysResponse,
+} from "../qsys-config/qsys-config";
+import { NodeMessage, NodeStatus } from "@node-red/registry";
+
+export type ComponentControlMethod = "Get" | "Set";
+
+type ControlValue = boolean | string | number;
+
+export interface MessageIn extends NodeMessage {
+  method?: ComponentControlMethod;
+  payload: ControlValue | Record<string, ControlValue> | string[] | undefined;
+  ramp?: number;
+}
+
+export interface MessageOut extends NodeMessage {
+  error?: ErrorDetails;
+}
+
+interface QSysResponseItem {
+  Name: string;
+  String?: string;
+  Value: ControlValue;
+  Position?: number;
+}
+
+interface ComponentParams {
+  Name: string;
+  Controls: {
+    Name: string;
+    Value?: ControlValue;
+    Ramp?: number;
+  }[];
+}
+
+export interface QSysResponseComponentGet extends QsysResponse {
+  result: {
+    Name: string;
+    Controls: QSysResponseItem[];
+  };
+}
+
+export interface Config extends NodeDef {
+  core: string;
+  codename: string;
+  controls: string;
+  method: ComponentControlMethod;
+  ramp: number | string | undefined;
+  errorOutput: 0 | 1 | undefined;
+}
+
+class NodeHandler {
+  protected node: Node<Config>;
+
+  protected config: Config;
+
+  protected nodeApi: NodeAPI;
+
+  protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
+
+  constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
+    this.node = node;
+    this.config = config;
+    this.nodeApi = nodeApi;
+    this.core = this.nodeApi.nodes.getNode(config.core) as QsysConfigNode<QsysConfigNodeConfig>;
+
+    this.core.nodeHandler.registerStatusCallback(this.node.id, (_socket, status, error) => {
+      const nodeStatus: NodeStatus = {
+        fill: "grey",
+        shape: "dot",
+        text: "",
+      };
+
+      switch (status) {
+        case "Inactive":
+          nodeStatus.fill = "grey";
+          nodeStatus.text = "Inactive.";
+          break;
+
+        case "Error":
+          nodeStatus.fill = "red";
+          nodeStatus.text = error instanceof Error ? error.message : "Failure.";
+          break;
+
+        case "Connected":
+        case "Active":
+          nodeStatus.fill = "green";
+          nodeStatus.text = "Connected.";
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
+        default:
+          break;
+      }
+
+      this.node.status(nodeStatus);
+    });
+
+    this.core.nodeHandler.watchNames(this.node.id, {
+      components: [this.config.codename],
+      componentControls: [{ Name: this.config.codename, Controls: this.parseList(this.config.controls) }],
+    });
+
+    this.node.on("close", () => {
+      this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unwatchNames(this.node.id);
+    });
+
+    this.node.on("input", (msg, _send, done) => {
+      const message = msg as MessageIn;
+      const method = message.method ?? this.config.method ?? "Get";
+
+      let params: ComponentParams;
+      try {
+        params = method === "Set" ? this.buildSetParams(message) : this.buildGetParams(message);
+      } catch (e) {
+        handleError(this.node, e, msg, { method: `Component.${method}` }, this.config);
+
+        return done();
+      }
+
+      const request: Partial<QsysMessage> = {
+        method: `Component.${method}`,
+        params: params,
+      };
+
+      this.core?.nodeHandler
+        .send(request, getRequestOptions(msg))
+        .then((response) => {
+          const data = response as QSysResponseComponentGet;
+
+          if (method === "Get") {
+            msg.payload = this.keyByName(data.result.Controls);
+          } else {
+            // the core only acknowledges the request, return what has been set
+            msg.payload = this.keyByName(params.Controls);
+          }
+
+          this.node.send(msg);
+        })
+        .catch((e) => {
+          handleError(this.node, e, msg, request, this.config);
+        })
+        .finally(() => {
+          done();
+        });
+    });
+  }
+
+  protected buildGetParams(message: MessageIn): ComponentParams {
+    const controls = Array.isArray(message.payload)
+      ? message.payload.map((control) => `${control}`)
+      : this.parseList(this.config.controls);
+
+    if (controls.length === 0) {
+      throw new Error(`No controls of component '${this.config.codename}' have been selected.`);
+    }
+
+    return {
+      Name: this.config.codename,
+      Controls: controls.map((control) => {
+        return {
+          Name: control,
+        };
+      }),
+    };
+  }
+
+  protected buildSetParams(message: MessageIn): ComponentParams {
+    const ramp = this.parseRamp(message.ramp ?? this.config.ramp);
+    const values: Record<string, ControlValue> = {};
+
+    if (["string", "number", "boolean"].includes(typeof message.payload)) {
+      // apply the same value to all configured controls
+      this.parseList(this.config.controls).forEach((control) => {
+        values[control] = message.payload as ControlValue;
+      });
+    } else if (message.payload !== null && typeof message.payload === "object" && !Array.isArray(message.payload)) {
+      Object.assign(values, message.payload);
+    } else {
+      throw new Error(`Value '${message.payload as any}' (${typeof message.payload}) is not supported.`);
+    }
+
+    const controls = Object.entries(values).map(([name, value]) => {
+      return {
+        Name: name,
+        Value: value,
+        Ramp: ramp,
+      };
+    });
+
+    if (controls.length === 0) {
+      throw new Error(`No controls of component '${this.config.codename}' have been selected.`);
+    }
+
+    return {
+      Name: this.config.codename,
+      Controls: controls,
+    };
+  }
+
+  protected keyByName<T extends { Name: string }>(controls: T[]): Record<string, T> {
+    const result: Record<string, T> = {};
+
+    controls.forEach((control) => {
+      result[control.Name] = control;
+    });
+
+    return result;
+  }
+
+  protected parseList(input: string | undefined): string[] {
+    if (!input) {
+      return [];
+    }
+
+    return input
+      .split(";")
+      .map((item) => item.trim())
+      .filter((item) => item.length !== 0);
+  }
+
+  protected parseRamp(input: number | string | undefined): number | undefined {
+    const ramp = typeof input === "string" ? parseFloat(input) : input;
+
+    if (ramp === undefined || isNaN(ramp) || ramp <= 0) {
+      return undefined;
+    }
+
+    return ramp;
+  }
+}
+
+export default (RED: NodeAPI): void => {
+  RED.nodes.registerType("qsys-component", function (this: Node<Config>, config: Config) {
+    RED.nodes.createNode(this, config);
+
+    new NodeHandler(this, config, RED);
+  });
+};
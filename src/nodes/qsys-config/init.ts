@@ -4,9 +4,24 @@ declare const RED: EditorRED;
 
 interface Defaults extends EditorNodeProperties {
   host: string;
+  backupHost?: string;
   authentication?: 0 | 1;
   username?: string;
   password?: string;
+  reconnectDelay: number;
+  reconnectDelayMax: number;
+  keepAliveInterval: number;
+  keepAliveMaxMissed: number;
+  maxInFlight: number;
+  coalesce?: 0 | 1;
+  coalesceInterval: number;
+  maxFrameSize: number;
+  pollingConnection?: 0 | 1;
+  requestTimeout: number;
+  requestRetries: number;
+  socketTimeout: number;
+  bufferOffline?: 0 | 1;
+  bufferMaxAge: number;
 }
 
 RED.nodes.registerType("qsys-config", {
@@ -20,6 +35,10 @@ RED.nodes.registerType("qsys-config", {
       value: "",
       required: true,
     },
+    backupHost: {
+      value: "",
+      required: false,
+    },
     authentication: {
       value: 0,
       required: false,
@@ -32,16 +51,116 @@ RED.nodes.registerType("qsys-config", {
       value: "",
       required: false,
     },
+    reconnectDelay: {
+      value: 1,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    reconnectDelayMax: {
+      value: 60,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    keepAliveInterval: {
+      value: 10,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    keepAliveMaxMissed: {
+      value: 3,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    maxInFlight: {
+      value: 8,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    coalesce: {
+      value: 0,
+      required: false,
+    },
+    coalesceInterval: {
+      value: 0.05,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    maxFrameSize: {
+      value: 16,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    pollingConnection: {
+      value: 0,
+      required: false,
+    },
+    requestTimeout: {
+      value: 10,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    requestRetries: {
+      value: 2,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    socketTimeout: {
+      value: 30,
+      required: true,
+      validate: RED.validators.number(),
+    },
+    bufferOffline: {
+      value: 0,
+      required: false,
+    },
+    bufferMaxAge: {
+      value: 60,
+      required: true,
+      validate: RED.validators.number(),
+    },
   },
   label: function () {
     return this.name;
   },
   oneditprepare: function () {
-    document.getElementById("node-config-input-authentication")?.addEventListener("change", (event) => {
-      const field: HTMLInputElement = event.currentTarget as HTMLInputElement;
+    ["node-config-input-authentication", "node-config-input-coalesce", "node-config-input-bufferOffline"].forEach(
+      (id) => {
+        document.getElementById(id)?.addEventListener("change", (event) => {
+          const field: HTMLInputElement = event.currentTarget as HTMLInputElement;
+
+          document.querySelectorAll(`[data-requires="${field.id}"]`).forEach((element) => {
+            (element as HTMLElement).style.display = field.checked ? "block" : "none";
+          });
+        });
+      },
+    );
+
+    // the inventory is requested through jQuery to pass the editor's authentication
+    ["node-config-inventory-json", "node-config-inventory-csv"].forEach((id) => {
+      document.getElementById(id)?.addEventListener("click", (event) => {
+        const format = (event.currentTarget as HTMLButtonElement).dataset.format ?? "json";
+
+        $.ajax({
+          url: `qsys/${this.id}/inventory`,
+          method: "GET",
+          data: {
+            format: format,
+          },
+          dataType: "text",
+        })
+          .done((response: string) => {
+            const link = document.createElement("a");
+            link.href = URL.createObjectURL(
+              new Blob([response], { type: format === "csv" ? "text/csv" : "application/json" }),
+            );
+            link.download = `${this.name || "qsys"}-inventory.${format}`;
+            link.click();
 
-      document.querySelectorAll(`[data-requires="${field.id}"]`).forEach((element) => {
-        (element as HTMLElement).style.display = field.checked ? "block" : "none";
+            URL.revokeObjectURL(link.href);
+          })
+          .fail(() => {
+            RED.notify(RED._("qsys-config.error.inventory"), "error");
+          });
       });
     });
   },
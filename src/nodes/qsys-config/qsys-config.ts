@@ -45,16 +45,34 @@ export interface QsysResponseEngineStatus extends QsysResponse {
   params: StatusParams;
 }
 
+export interface ChangeGroupChange {
+  Component?: string;
+  Name: string;
+  Value: unknown;
+  String: string;
+  Position?: number;
+}
+
+export interface ChangeGroupPollResult {
+  Id: string;
+  Changes: ChangeGroupChange[];
+}
+
 export interface QsysResponseChangeGroupPoll extends QsysResponse {
-  result: {
-    Id: string;
-    Changes: {
-      Component?: string;
-      Name: string;
-      Value: unknown;
-      String: string;
-    }[];
-  };
+  result?: ChangeGroupPollResult;
+  params?: ChangeGroupPollResult;
+}
+
+export interface ChangeGroupComponent {
+  Name: string;
+  Controls: { Name: string }[];
+}
+
+export interface ChangeGroupDefinition {
+  Id: string;
+  Controls: string[];
+  Components: ChangeGroupComponent[];
+  Rate: number;
 }
 
 export interface QSysResponseComonentsControls extends QsysResponse {
@@ -87,30 +105,178 @@ export interface QSysResponseComonentsItem {
 
 export interface Config extends NodeDef {
   host: string;
+  backupHost: string | undefined;
   authentication: 0 | 1 | undefined;
   username: string | undefined;
   password: string | undefined;
+  reconnectDelay: number | string | undefined;
+  reconnectDelayMax: number | string | undefined;
+  keepAliveInterval: number | string | undefined;
+  keepAliveMaxMissed: number | string | undefined;
+  maxInFlight: number | string | undefined;
+  coalesce: 0 | 1 | undefined;
+  coalesceInterval: number | string | undefined;
+  maxFrameSize: number | string | undefined;
+  pollingConnection: 0 | 1 | undefined;
+  requestTimeout: number | string | undefined;
+  requestRetries: number | string | undefined;
+  socketTimeout: number | string | undefined;
+  bufferOffline: 0 | 1 | undefined;
+  bufferMaxAge: number | string | undefined;
 }
 
 export type MessageIn = NodeMessage;
 
+export type ConnectionName = "control" | "polling";
+
 export type Status = "Idle" | "Active" | "Standby" | "Error" | "Inactive" | "Connected";
 
 export type StatusCallback = (socket: Socket | undefined, status: Status, error?: Error) => void;
 
-let lastId: number = 0;
+export type ChangeListener = (change: ChangeGroupChange, groupId: string) => void;
+
+export type NotificationListener = (notification: QsysResponse & { params?: unknown }) => void;
+
+export type DesignChangeListener = (design: StatusParams, previousDesignCode: string) => void;
+
+export interface NameReferences {
+  components?: string[];
+  componentControls?: { Name: string; Controls: string[] }[];
+  controls?: string[];
+}
+
+export interface InventoryRow {
+  component: string;
+  componentType: string;
+  control: string;
+  controlType: string;
+  direction: string;
+  valueMin: number | undefined;
+  valueMax: number | undefined;
+  stringMin: string | undefined;
+  stringMax: string | undefined;
+}
+
+export interface ConnectionHealth {
+  host: string;
+  status: Status | undefined;
+  connectedSince: number | undefined;
+  uptime: number | undefined;
+  roundTrip: number | undefined;
+  lastError: string | undefined;
+  lastErrorAt: number | undefined;
+  engine: StatusParams | undefined;
+  droppedFrames: number;
+  lastDroppedFrame: string | undefined;
+  bufferedRequests: number;
+}
+
+export interface RequestOptions {
+  timeout?: number;
+  retries?: number;
+}
+
+interface PendingRequest {
+  message: QsysMessage;
+  resolve: (response: QsysResponse) => void;
+  reject: (error: Error) => void;
+  options?: RequestOptions;
+  socket?: Socket;
+  timeout?: NodeJS.Timeout;
+}
+
+// a logical session with the core, each connection allocates its own request ids
+interface Connection {
+  name: ConnectionName;
+  socket?: Socket;
+  connectionPromise?: Promise<Socket>;
+  reconnectTimeoutId?: NodeJS.Timeout;
+  reconnectAttempts: number;
+  noOpIntervalId?: NodeJS.Timeout;
+  queue: PendingRequest[];
+  inFlight: Map<number, PendingRequest>;
+  processingQueue: boolean;
+  waitingForDrain: boolean;
+  lastId: number;
+}
+
+interface NameWatch {
+  references: NameReferences;
+  missing: string[];
+}
+
+interface PendingRetry {
+  timeout: NodeJS.Timeout;
+  reject: (error: Error) => void;
+}
+
+interface BufferedRequest {
+  message: QsysMessage;
+  options?: RequestOptions;
+  expiry: NodeJS.Timeout;
+  waiters: Pick<PendingRequest, "resolve" | "reject">[];
+}
+
+interface CoalescingState {
+  timeout?: NodeJS.Timeout;
+  message?: QsysMessage;
+  options?: RequestOptions;
+  waiters: Pick<PendingRequest, "resolve" | "reject">[];
+}
+
+export function toMilliseconds(seconds: number | string | undefined, fallback: number): number {
+  const value = typeof seconds === "string" ? parseFloat(seconds) : seconds;
+
+  if (value === undefined || isNaN(value) || value < 0) {
+    return fallback * 1000;
+  }
+
+  return value * 1000;
+}
+
+export function toBytes(megabytes: number | string | undefined, fallback: number): number {
+  const value = typeof megabytes === "string" ? parseFloat(megabytes) : megabytes;
+
+  if (value === undefined || isNaN(value) || value <= 0) {
+    return fallback * 1024 * 1024;
+  }
+
+  return value * 1024 * 1024;
+}
+
+// msg.timeout (in seconds) and msg.retries override the defaults of the configuration node
+export function getRequestOptions(msg: NodeMessage): RequestOptions {
+  const message = msg as NodeMessage & { timeout?: unknown; retries?: unknown };
+  const timeout = parseFloat(`${message.timeout as string}`);
+  const retries = parseInt(`${message.retries as string}`, 10);
+
+  return {
+    timeout: isNaN(timeout) || timeout <= 0 ? undefined : timeout,
+    retries: isNaN(retries) || retries < 0 ? undefined : retries,
+  };
+}
 
-export function reserveId(): number {
-  return lastId++;
+export interface ErrorDetails {
+  message: string;
+  code?: QSysApiErrorCode;
+  hint?: string;
+  method?: string;
+  params?: unknown;
 }
 
 export class QSysApiError extends Error {
   public readonly code: QSysApiErrorCode;
 
-  constructor(code: QSysApiErrorCode, message?: string) {
+  public readonly method?: string;
+
+  public readonly params?: unknown;
+
+  constructor(code: QSysApiErrorCode, message?: string, request?: Pick<QsysMessage, "method" | "params">) {
     super(message);
 
     this.code = code;
+    this.method = request?.method;
+    this.params = request?.params;
   }
 
   public get hint(): string {
@@ -151,6 +317,111 @@ export class QSysApiError extends Error {
   }
 }
 
+// details of an error as provided in msg.error, falling back to the request that failed
+export function describeError(e: unknown, request?: Partial<QsysMessage>): ErrorDetails {
+  const error = e instanceof Error ? e : new Error(`${e as string}`);
+  const params = error instanceof QSysApiError && error.method ? error.params : request?.params;
+
+  return {
+    message: error.message,
+    code: error instanceof QSysApiError ? error.code : undefined,
+    hint: error instanceof QSysApiError ? error.hint : undefined,
+    method: (error instanceof QSysApiError ? error.method : undefined) ?? request?.method,
+    params: params === 0 ? undefined : params,
+  };
+}
+
+export interface ErrorHandling {
+  errorOutput: 0 | 1 | undefined;
+  // number of regular outputs, the error output is appended to them
+  outputs?: number;
+  // the failed message is still sent to the first output when the error output is disabled
+  forward?: boolean;
+}
+
+// reports a failure to catch nodes or to the error output of the node, msg.error holds the details
+export function handleError(
+  node: Node,
+  e: unknown,
+  output: NodeMessage & { error?: ErrorDetails },
+  request: Partial<QsysMessage>,
+  handling: ErrorHandling,
+): void {
+  const outputs = handling.outputs ?? 1;
+  output.error = describeError(e, request);
+
+  if (handling.errorOutput) {
+    node.send([...new Array<null>(outputs).fill(null), output]);
+  } else {
+    node.error(e, output);
+
+    if (handling.forward) {
+      node.send([output, ...new Array<null>(outputs - 1).fill(null)]);
+    }
+  }
+}
+
+// splits the null-terminated QRC stream into frames, partial frames are kept until the next chunk arrives
+export class FrameDecoder {
+  protected chunks: Buffer[] = [];
+
+  protected length: number = 0;
+
+  protected discarding: boolean = false;
+
+  protected maxFrameSize: number;
+
+  protected onOversized: (size: number) => void;
+
+  constructor(maxFrameSize: number, onOversized: (size: number) => void) {
+    this.maxFrameSize = maxFrameSize;
+    this.onOversized = onOversized;
+  }
+
+  public push(data: Buffer): string[] {
+    const frames: string[] = [];
+    let start = 0;
+
+    while (start < data.length) {
+      const end = data.indexOf(0x0, start);
+      const part = data.subarray(start, end === -1 ? data.length : end);
+
+      if (!this.discarding) {
+        this.chunks.push(part);
+        this.length += part.length;
+
+        // drop the frame instead of buffering an unbounded amount of data
+        if (this.length > this.maxFrameSize) {
+          this.onOversized(this.length);
+          this.discarding = true;
+          this.chunks = [];
+          this.length = 0;
+        }
+      }
+
+      if (end === -1) {
+        break;
+      }
+
+      // multi-byte characters may span chunks, so the frame is decoded only once it is complete
+      if (!this.discarding && this.length !== 0) {
+        frames.push(Buffer.concat(this.chunks, this.length).toString("utf8"));
+      }
+
+      this.reset();
+      start = end + 1;
+    }
+
+    return frames;
+  }
+
+  public reset(): void {
+    this.chunks = [];
+    this.length = 0;
+    this.discarding = false;
+  }
+}
+
 class NodeHandler {
   protected node: Node<Config>;
 
@@ -158,13 +429,52 @@ class NodeHandler {
 
   protected nodeApi: NodeAPI;
 
-  protected socket: Socket | undefined = undefined;
+  protected connections: Map<ConnectionName, Connection> = new Map<ConnectionName, Connection>();
+
+  protected roundTrip: number | undefined = undefined;
 
-  protected noOpIntervalId: NodeJS.Timeout | undefined = undefined;
+  protected status: Status | undefined = undefined;
+
+  protected connectedSince: number | undefined = undefined;
+
+  protected lastError: { message: string; at: number } | undefined = undefined;
+
+  protected engineStatus: StatusParams | undefined = undefined;
+
+  protected droppedFrames: number = 0;
+
+  protected lastDroppedFrame: string | undefined = undefined;
 
   protected statusCallbacks: Map<string, StatusCallback> = new Map<string, StatusCallback>();
 
-  protected connectionPromise: Promise<Socket> | undefined = undefined;
+  protected changeListeners: Set<ChangeListener> = new Set<ChangeListener>();
+
+  protected notificationListeners: Set<NotificationListener> = new Set<NotificationListener>();
+
+  protected designChangeListeners: Set<DesignChangeListener> = new Set<DesignChangeListener>();
+
+  protected designCode: string | undefined = undefined;
+
+  protected nameWatches: Map<string, NameWatch> = new Map<string, NameWatch>();
+
+  protected componentCache: Promise<QSysResponseComonentsItem[]> | undefined = undefined;
+
+  protected controlCache: Map<string, Promise<QSysResponseComonentsItemControl[]>> = new Map<
+    string,
+    Promise<QSysResponseComonentsItemControl[]>
+  >();
+
+  protected changeGroups: Map<string, ChangeGroupDefinition> = new Map<string, ChangeGroupDefinition>();
+
+  protected closing: boolean = false;
+
+  protected hostIndex: number = 0;
+
+  protected coalescing: Map<string, CoalescingState> = new Map<string, CoalescingState>();
+
+  protected buffer: Map<string, BufferedRequest> = new Map<string, BufferedRequest>();
+
+  protected retries: Set<PendingRetry> = new Set<PendingRetry>();
 
   constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
     this.node = node;
@@ -172,49 +482,174 @@ class NodeHandler {
     this.nodeApi = nodeApi;
 
     this.node.on("close", () => {
-      if (this.noOpIntervalId) {
-        clearInterval(this.noOpIntervalId);
-      }
+      this.closing = true;
+
+      this.connections.forEach((connection) => {
+        this.stopKeepAlive(connection);
+
+        connection.queue.splice(0).forEach((request) => {
+          request.reject(new Error(`Q-SYS device "${this.node.name}" has been closed.`));
+        });
+
+        if (connection.reconnectTimeoutId) {
+          clearTimeout(connection.reconnectTimeoutId);
+          connection.reconnectTimeoutId = undefined;
+        }
+      });
+
+      this.coalescing.forEach((state) => {
+        clearTimeout(state.timeout);
+
+        state.waiters.splice(0).forEach((waiter) => {
+          waiter.reject(new Error(`Q-SYS device "${this.node.name}" has been closed.`));
+        });
+      });
+      this.coalescing.clear();
+
+      this.buffer.forEach((entry) => {
+        clearTimeout(entry.expiry);
+
+        entry.waiters.splice(0).forEach((waiter) => {
+          waiter.reject(new Error(`Q-SYS device "${this.node.name}" has been closed.`));
+        });
+      });
+      this.buffer.clear();
+
+      this.retries.forEach((retry) => {
+        clearTimeout(retry.timeout);
+        retry.reject(new Error(`Q-SYS device "${this.node.name}" has been closed.`));
+      });
+      this.retries.clear();
+    });
+
+    // establish the connection right away, failures are retried by the reconnect handling
+    this.initSocket(this.getConnection("control")).catch((e) => {
+      this.node.debug(e);
     });
   }
 
-  protected async getSocket(): Promise<Socket> {
-    if (this.socket) {
-      return Promise.resolve(this.socket);
+  protected getConnection(name: ConnectionName): Connection {
+    let connection = this.connections.get(name);
+
+    if (!connection) {
+      connection = {
+        name: name,
+        reconnectAttempts: 0,
+        queue: [],
+        inFlight: new Map<number, PendingRequest>(),
+        processingQueue: false,
+        waitingForDrain: false,
+        lastId: 0,
+      };
+
+      this.connections.set(name, connection);
+    }
+
+    return connection;
+  }
+
+  // change groups may be polled on a dedicated connection to not delay other requests
+  protected getConnectionFor(method: string): Connection {
+    if (this.config.pollingConnection && /^ChangeGroup\./.test(method)) {
+      return this.getConnection("polling");
+    }
+
+    return this.getConnection("control");
+  }
+
+  protected async getSocket(connection: Connection): Promise<Socket> {
+    if (connection.socket) {
+      return Promise.resolve(connection.socket);
     }
 
-    return this.initSocket();
+    return this.initSocket(connection);
   }
 
-  protected async initSocket(): Promise<Socket> {
-    if (this.connectionPromise) {
-      return this.connectionPromise;
+  protected async initSocket(connection: Connection): Promise<Socket> {
+    // a closed node must not leave a connection behind
+    if (this.closing) {
+      return Promise.reject(new Error(`Q-SYS device "${this.node.name}" has been closed.`));
+    }
+
+    if (connection.connectionPromise) {
+      return connection.connectionPromise;
     }
 
-    const target = this.config.host.split(":");
+    const target = this.getHost().split(":");
     const host = target[0];
     const port = target[1] ? parseInt(target[1], 10) : 1710;
+    const isControl = connection.name === "control";
+
+    connection.connectionPromise = new Promise<Socket>((resolve, reject) => {
+      let settled = false;
 
-    this.connectionPromise = new Promise<Socket>((resolve, reject) => {
       const handleReject = (error: Error) => {
-        this.connectionPromise = undefined;
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        connection.connectionPromise = undefined;
+
+        // a rejected socket, e.g. after a failed logon, must not stay open and keep receiving pushes
+        socket.removeAllListeners("data");
+        this.node.removeListener("close", closeListener);
+        this.rejectInFlight(connection, socket, error);
+        this.closeSocket(socket);
+
+        // the connection state and the choice of the core follow the control connection
+        if (isControl) {
+          this.updateStatus("Error", error);
+
+          // try the other core of a redundant pair next
+          this.switchHost();
+        }
 
-        this.updateStatus("Error", error);
+        this.scheduleReconnect(connection);
 
         reject(error);
       };
 
       const handleResolve = (socket: Socket) => {
-        if (this.socket !== undefined) {
-          this.closeSocket(this.socket);
+        if (settled) {
+          return;
         }
 
-        this.socket = socket;
-        this.connectionPromise = undefined;
+        settled = true;
 
-        this.updateStatus("Connected");
+        if (connection.reconnectTimeoutId) {
+          clearTimeout(connection.reconnectTimeoutId);
+          connection.reconnectTimeoutId = undefined;
+        }
+
+        if (connection.socket !== undefined) {
+          this.closeSocket(connection.socket);
+        }
+
+        connection.socket = socket;
+        connection.connectionPromise = undefined;
+        connection.reconnectAttempts = 0;
+
+        if (isControl) {
+          this.updateStatus("Connected");
+        }
+
+        this.startKeepAlive(connection, socket);
 
         resolve(socket);
+
+        if (this.getConnectionFor("ChangeGroup.AutoPoll") === connection) {
+          this.restoreChangeGroups();
+        }
+
+        if (isControl) {
+          this.replayBuffer();
+        }
+
+        // the EngineStatus pushed before the logon has not been applied
+        if (isControl && (this.isRedundant() || this.config.authentication)) {
+          this.checkEngineStatus(connection, socket);
+        }
       };
 
       // initiate socket connection
@@ -222,25 +657,22 @@ class NodeHandler {
         host: host,
         port: port,
         allowHalfOpen: false,
-        timeout: 30 * 1000,
+        timeout: toMilliseconds(this.config.socketTimeout, 30) || undefined,
       });
-      socket.setMaxListeners(0);
+
+      let lastError: Error | undefined = undefined;
 
       // start communication
       socket.on("ready", () => {
         // try authentication
         if (this.config.authentication) {
-          void this.send(
-            {
-              jsonrpc: "2.0",
-              method: "Logon",
-              params: {
-                User: this.node.credentials.username,
-                Password: this.node.credentials.password,
-              },
+          void this.sendDirect(connection, socket, {
+            method: "Logon",
+            params: {
+              User: this.node.credentials.username,
+              Password: this.node.credentials.password,
             },
-            socket,
-          )
+          })
             .then((response) => {
               if (response.error) {
                 const error = new QSysApiError(response.error.code, response.error.message);
@@ -259,38 +691,61 @@ class NodeHandler {
       });
 
       // handle cleanup if socket closes
-      socket.on("close", () => {
+      socket.on("close", (hadError: boolean) => {
         const error = new Error(`Socket to ${host}:${port} closed.`);
 
         this.closeSocket(socket);
-        if (this.socket === socket) {
-          this.socket = undefined;
+        this.node.removeListener("close", closeListener);
+
+        // requests written to this socket will never be answered
+        this.rejectInFlight(connection, socket, error);
+
+        if (connection.socket === socket) {
+          connection.socket = undefined;
+          connection.waitingForDrain = false;
+          this.stopKeepAlive(connection);
+
+          if (isControl) {
+            if (hadError && lastError) {
+              this.updateStatus("Error", lastError);
+            } else {
+              this.updateStatus("Inactive");
+            }
+
+            // the partner of a redundant pair may have taken over
+            if (this.isRedundant()) {
+              this.switchHost();
+
+              // the other connections follow to the partner
+              this.connections.forEach((other) => {
+                if (other !== connection) {
+                  this.closeSocket(other.socket);
+                }
+              });
+            }
+          }
+
+          this.scheduleReconnect(connection);
         }
 
+        // reject if the socket closes before the connection has been established
+        handleReject(error);
+
         this.node.debug(error.message);
-        //this.updateStatus("Inactive");
       });
       socket.on("end", () => {
         const error = new Error(`Socket to ${host}:${port} ended.`);
 
         this.closeSocket(socket);
-        if (this.socket === socket) {
-          this.socket = undefined;
-        }
 
         this.node.debug(error.message);
-        //this.updateStatus("Inactive");
       });
       socket.on("timeout", () => {
         const error = new Error(`Socket to ${host}:${port} timed out.`);
 
         this.closeSocket(socket);
-        if (this.socket === socket) {
-          this.socket = undefined;
-        }
 
         this.node.debug(error.message);
-        //this.updateStatus("Error", error);
       });
       socket.on("connectionAttemptFailed", () => {
         const error = new Error(`Connecting to socket ${host}:${port} failed.`);
@@ -320,7 +775,14 @@ class NodeHandler {
 
       // display errors
       socket.on("error", (err: Error | NodeJS.ErrnoException) => {
-        this.node.error(err.message);
+        lastError = err;
+
+        // failed connection attempts are reported through the status callbacks
+        if (connection.socket === socket) {
+          this.node.error(err.message);
+        } else {
+          this.node.debug(err.message);
+        }
 
         // Error: connect ECONNREFUSED 127.0.0.1:1710 => -4078
         if ((err as NodeJS.ErrnoException).errno === -4078) {
@@ -328,175 +790,1036 @@ class NodeHandler {
         }
       });
 
-      socket.on("data", (data) => this.receive(data));
-
-      this.node.on("close", () => this.closeSocket(socket));
-
-      // start sending cyclic noop command to keep socket alive
-      if (!this.noOpIntervalId) {
-        this.noOpIntervalId = setInterval(() => {
-          try {
-            //void this.send({
-            //  jsonrpc: "2.0",
-            //  method: "NoOp",
-            //  params: {},
-            //});
-          } catch (e) {
-            this.node.debug(e);
-          }
-        }, 30 * 1000);
-      }
-    });
+      const maxFrameSize = toBytes(this.config.maxFrameSize, 16);
+      const decoder = new FrameDecoder(maxFrameSize, (size) => {
+        this.dropFrame(`Frame of at least ${size} bytes exceeds the maximum size of ${maxFrameSize} bytes.`);
+      });
 
-    return this.connectionPromise;
-  }
+      socket.on("data", (data) => {
+        decoder.push(data).forEach((frame) => this.receive(connection, socket, frame));
+      });
 
-  protected closeSocket(socket: Socket | undefined) {
-    socket?.destroy();
-    socket = undefined;
+      const closeListener = () => this.closeSocket(socket);
+      this.node.on("close", closeListener);
+    });
+
+    return connection.connectionPromise;
   }
 
-  protected encapsulate = (input: object): Buffer => {
-    return Buffer.concat([Buffer.from(JSON.stringify(input)), Buffer.from([0x0])]);
-  };
+  protected startKeepAlive(connection: Connection, socket: Socket): void {
+    this.stopKeepAlive(connection);
 
-  public async send(
-    input: Partial<QsysMessage>,
-    forcedSocket: Socket | undefined = this.socket,
-  ): Promise<QsysResponse> {
-    input.jsonrpc = "2.0";
+    const interval = toMilliseconds(this.config.keepAliveInterval, 10);
+    const maxMissed = Math.max(1, parseInt(`${this.config.keepAliveMaxMissed ?? 3}`, 10) || 3);
 
-    if (input.params === undefined) {
-      input.params = 0;
-    }
+    let missed = 0;
+    let awaitingReply = false;
 
-    if (input.id === undefined) {
-      input.id = reserveId();
-    }
+    // start sending cyclic noop command to keep socket alive
+    connection.noOpIntervalId = setInterval(() => {
+      // the previous noop has not been answered within one interval
+      if (awaitingReply && ++missed >= maxMissed) {
+        const error = new Error(`Q-SYS device "${this.node.name}" did not answer ${missed} keep-alive requests.`);
 
-    let socket: Socket;
-    try {
-      socket = forcedSocket || (await this.getSocket());
-    } catch (e) {
-      return Promise.reject(e as Error);
-    }
+        this.stopKeepAlive(connection);
+        this.closeSocket(socket, error);
 
-    socket?.write(this.encapsulate(input));
+        return;
+      }
 
-    let listener: (...args: any[]) => void;
-    let timeout: NodeJS.Timeout;
-    const promise = new Promise<QsysResponse>((resolve, reject) => {
-      listener = (data: QsysResponse) => {
-        if (data.id === input.id) {
-          clearTimeout(timeout);
-          this.node.removeListener("package", listener);
+      const start = Date.now();
+      awaitingReply = true;
 
-          if (data.error !== undefined) {
-            const error = new QSysApiError(data.error.code, data.error.message);
+      this.sendDirect(connection, socket, {
+        method: "NoOp",
+        params: {},
+      })
+        .then(() => {
+          awaitingReply = false;
+          missed = 0;
 
-            reject(error);
+          if (connection.name === "control") {
+            this.roundTrip = Date.now() - start;
+            this.node.debug(`Keep-alive round-trip to ${this.getHost()} took ${this.roundTrip} ms.`);
           }
+        })
+        .catch((e) => {
+          this.node.debug(e);
+        });
+    }, interval);
+  }
 
-          resolve(data);
-        }
-      };
+  protected stopKeepAlive(connection: Connection): void {
+    if (connection.noOpIntervalId) {
+      clearInterval(connection.noOpIntervalId);
+      connection.noOpIntervalId = undefined;
+    }
+  }
 
-      this.node.addListener("package", listener);
+  protected scheduleReconnect(connection: Connection): void {
+    if (this.closing || connection.reconnectTimeoutId !== undefined) {
+      return;
+    }
 
-      timeout = setTimeout(() => {
-        reject(new Error(`Q-SYS device "${this.node.name}" did not respond within 10 seconds.`));
-      }, 10 * 1000);
-    });
+    const delay = this.getReconnectDelay(connection.reconnectAttempts++);
 
-    return promise;
+    this.node.debug(`Reconnecting ${connection.name} connection to ${this.getHost()} in ${delay} ms.`);
+
+    connection.reconnectTimeoutId = setTimeout(() => {
+      connection.reconnectTimeoutId = undefined;
+
+      // a failed attempt schedules the next one
+      this.initSocket(connection).catch((e) => {
+        this.node.debug(e);
+      });
+    }, delay);
   }
 
-  protected receive(data: Buffer) {
-    let rx = [];
+  protected getReconnectDelay(attempt: number): number {
+    const min = toMilliseconds(this.config.reconnectDelay, 1);
+    const max = Math.max(min, toMilliseconds(this.config.reconnectDelayMax, 60));
+    const delay = Math.min(max, min * Math.pow(2, attempt));
 
-    for (let i = 0; i < data.length; i++) {
-      if (data[i] == 0x0 && data.length != 0) {
-        try {
-          const obj: QsysResponse = JSON.parse(Buffer.from(rx).toString());
+    // add jitter to prevent all clients from reconnecting simultaneously
+    return Math.round(delay / 2 + (Math.random() * delay) / 2);
+  }
 
-          if ("method" in obj) {
-            switch (obj.method) {
-              case "EngineStatus": {
-                const data = obj as QsysResponseEngineStatus;
+  protected getHosts(): string[] {
+    return [this.config.host, this.config.backupHost]
+      .map((host) => host?.trim() ?? "")
+      .filter((host) => host.length !== 0);
+  }
 
-                if (data.params.State === "Active") {
-                  this.node.emit("ready");
-                } else if (data.params.State === "Standby") {
-                  this.closeSocket(this.socket);
-                }
+  protected getHost(): string {
+    const hosts = this.getHosts();
 
-                break;
-              }
+    return hosts[this.hostIndex % hosts.length] ?? this.config.host;
+  }
 
-              case "ChangeGroup.Poll": {
-                const data = obj as QsysResponseChangeGroupPoll;
-                const changes = data.result.Changes;
-                if (changes.length !== 0) {
-                  for (let i = 0; i < changes.length; i++) {
-                    this.node.emit("rx", changes[i]);
-                  }
-                }
-                break;
-              }
+  protected isRedundant(): boolean {
+    return this.getHosts().length > 1;
+  }
 
-              default:
-                break;
-            }
-          }
+  protected getPartnerHost(): string | undefined {
+    const hosts = this.getHosts();
 
-          this.node.emit("package", obj);
+    return this.isRedundant() ? hosts[(this.hostIndex + 1) % hosts.length] : undefined;
+  }
 
-          rx = [];
-        } catch (err) {
-          if (err instanceof Error) {
-            this.node.error(err.message);
-          }
-        }
-      } else {
-        rx.push(data[i]);
-      }
+  protected switchHost(): void {
+    if (this.isRedundant()) {
+      this.hostIndex = (this.hostIndex + 1) % this.getHosts().length;
     }
   }
 
-  protected updateStatus(status: Status, error?: Error) {
-    this.statusCallbacks.forEach((callback) => {
-      callback(this.socket, status, error);
-    });
+  protected checkEngineStatus(connection: Connection, socket: Socket): void {
+    this.sendDirect(connection, socket, {
+      method: "StatusGet",
+      params: 0,
+    })
+      .then((response) => {
+        this.handleEngineStatus(response.result as StatusParams);
+      })
+      .catch((e) => {
+        this.node.debug(e);
+      });
   }
 
-  public registerStatusCallback(nodeId: string, callback: StatusCallback): void {
-    if (!this.statusCallbacks.has(nodeId)) {
-      this.statusCallbacks.set(nodeId, callback);
+  protected handleEngineStatus(status: StatusParams): void {
+    this.engineStatus = status;
+
+    // the design code is kept across reconnects as the core restarts when a design is deployed
+    if (status.DesignCode) {
+      const previousDesignCode = this.designCode;
+      this.designCode = status.DesignCode;
+
+      if (previousDesignCode !== undefined && previousDesignCode !== status.DesignCode) {
+        this.handleDesignChange(status, previousDesignCode);
+      }
     }
-  }
 
-  public unregisterStatusCallback(nodeId: string): void {
-    if (this.statusCallbacks.has(nodeId)) {
-      this.statusCallbacks.delete(nodeId);
+    if (status.State === "Active") {
+      this.node.emit("ready");
+      this.updateStatus("Active");
+    } else if (status.State === "Standby") {
+      this.handleStandby();
     }
   }
 
-  public async getComponentList() {
-    return await this.send({
-      method: "Component.GetComponents",
-      params: undefined,
+  protected handleDesignChange(design: StatusParams, previousDesignCode: string): void {
+    this.node.log(`Design of Q-SYS Core changed to "${design.DesignName}" (${design.DesignCode}).`);
+    this.invalidateInventory();
+    this.node.emit("design", design);
+
+    this.designChangeListeners.forEach((listener) => {
+      listener(design, previousDesignCode);
     });
+
+    // configured names may have been removed or renamed by the new design
+    this.nameWatches.forEach((_watch, nodeId) => this.validateNames(nodeId));
   }
-}
 
-export default (RED: NodeAPI): void => {
-  RED.nodes.registerType(
-    "qsys-config",
-    function (this: QsysConfigNode<Config>, config: Config) {
-      RED.nodes.createNode(this, config);
+  protected validateNames(nodeId: string): void {
+    const watch = this.nameWatches.get(nodeId);
+    if (!watch) {
+      return;
+    }
 
-      this.nodeHandler = new NodeHandler(this, config, RED);
-    },
+    this.findMissingNames(watch.references)
+      .then((missing) => {
+        const node = this.nodeApi.nodes.getNode(nodeId);
+        if (!node || this.nameWatches.get(nodeId) !== watch) {
+          return;
+        }
+
+        if (missing.length !== 0) {
+          node.warn(`Missing in the design of the Q-SYS Core: ${missing.join(", ")}.`);
+        } else if (watch.missing.length !== 0) {
+          node.status({ fill: "green", shape: "dot", text: "Connected." });
+        }
+
+        watch.missing = missing;
+        this.reportMissingNames(nodeId);
+      })
+      .catch((e) => {
+        this.node.debug(e);
+      });
+  }
+
+  // the warning is kept on the node's status until the names are found in a later design
+  protected reportMissingNames(nodeId: string): void {
+    const missing = this.nameWatches.get(nodeId)?.missing ?? [];
+
+    if (missing.length !== 0) {
+      this.nodeApi.nodes
+        .getNode(nodeId)
+        ?.status({ fill: "yellow", shape: "ring", text: `Missing in design: ${missing.join(", ")}` });
+    }
+  }
+
+  protected handleStandby(): void {
+    const partner = this.getPartnerHost();
+    const socket = this.getConnection("control").socket;
+
+    if (!socket || socket.destroyed) {
+      return;
+    }
+
+    // without a partner to switch to, keep the connection until the core reports to be active again
+    if (partner === undefined) {
+      this.updateStatus("Standby");
+
+      return;
+    }
+
+    this.updateStatus("Standby", new Error(`Q-SYS Core ${this.getHost()} is on standby, switching to ${partner}.`));
+
+    // closing the socket switches over to the partner
+    this.closeSocket(socket);
+  }
+
+  protected restoreChangeGroups(): void {
+    this.changeGroups.forEach((definition) => {
+      this.setupChangeGroup(definition).catch((e) => {
+        this.node.error(`Restoring change group ${definition.Id} failed: ${(e as Error).message}`);
+      });
+    });
+  }
+
+  protected closeSocket(socket: Socket | undefined, error?: Error) {
+    socket?.destroy(error);
+    socket = undefined;
+  }
+
+  protected encapsulate = (input: object): Buffer => {
+    return Buffer.concat([Buffer.from(JSON.stringify(input)), Buffer.from([0x0])]);
+  };
+
+  public async send(input: Partial<QsysMessage>, options?: RequestOptions): Promise<QsysResponse> {
+    const message = this.prepare(input);
+
+    if (this.config.bufferOffline && this.isWrite(message) && !this.getConnectionFor(message.method).socket) {
+      return this.bufferRequest(message, options);
+    }
+
+    const key = this.getCoalescingKey(message);
+    if (key !== undefined) {
+      return this.coalesce(key, message, options);
+    }
+
+    if (!this.isRetryable(message)) {
+      return this.enqueue(message, options);
+    }
+
+    const retries = options?.retries ?? Math.max(0, parseInt(`${this.config.requestRetries ?? 2}`, 10) || 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.enqueue(message, options);
+      } catch (e) {
+        // errors reported by the core would only be repeated
+        if (e instanceof QSysApiError || attempt >= retries || this.closing) {
+          throw e;
+        }
+
+        const delay = this.getRetryDelay(attempt);
+        this.node.debug(`Retrying ${message.method} in ${delay} ms: ${(e as Error).message}`);
+
+        await new Promise<void>((resolve, reject) => {
+          const retry: PendingRetry = {
+            timeout: setTimeout(() => {
+              this.retries.delete(retry);
+              resolve();
+            }, delay),
+            reject: reject,
+          };
+
+          this.retries.add(retry);
+        });
+
+        // the node may have been closed while waiting
+        if (this.closing) {
+          throw new Error(`Q-SYS device "${this.node.name}" has been closed.`);
+        }
+      }
+    }
+  }
+
+  // only requests without side effects may be repeated
+  protected isRetryable(message: QsysMessage): boolean {
+    return /^(\w+\.)?(Get|StatusGet$|NoOp$)/.test(message.method);
+  }
+
+  protected getRetryDelay(attempt: number): number {
+    const delay = Math.min(toMilliseconds(this.config.reconnectDelayMax, 60), 250 * Math.pow(2, attempt));
+
+    return Math.round(delay / 2 + (Math.random() * delay) / 2);
+  }
+
+  protected getRequestTimeout(options?: RequestOptions): number {
+    if (options?.timeout !== undefined) {
+      return options.timeout * 1000;
+    }
+
+    return toMilliseconds(this.config.requestTimeout, 10) || 10 * 1000;
+  }
+
+  // requests on a given socket are part of establishing the connection and bypass the queue
+  protected sendDirect(connection: Connection, socket: Socket, input: Partial<QsysMessage>): Promise<QsysResponse> {
+    const message = this.prepare(input);
+
+    return new Promise<QsysResponse>((resolve, reject) => {
+      this.write(connection, socket, {
+        message: message,
+        resolve: resolve,
+        reject: reject,
+      });
+    });
+  }
+
+  protected prepare(input: Partial<QsysMessage>): QsysMessage {
+    input.jsonrpc = "2.0";
+
+    if (input.params === undefined) {
+      input.params = 0;
+    }
+
+    // the id is assigned by the connection the request is written to
+    if (input.id === undefined) {
+      input.id = 0;
+    }
+
+    return input as QsysMessage;
+  }
+
+  protected enqueue(message: QsysMessage, options?: RequestOptions): Promise<QsysResponse> {
+    const connection = this.getConnectionFor(message.method);
+
+    return new Promise<QsysResponse>((resolve, reject) => {
+      connection.queue.push({
+        message: message,
+        resolve: resolve,
+        reject: reject,
+        options: options,
+      });
+
+      this.processQueue(connection);
+    });
+  }
+
+  protected isWrite(message: QsysMessage): boolean {
+    return /^(Control|Component|Mixer)\.Set|^Snapshot\.Load$/.test(message.method);
+  }
+
+  // requests addressing the same target only differ in their values
+  protected getTargetKey(message: QsysMessage): string {
+    return `${message.method}:${JSON.stringify(message.params, (key: string, value: unknown) => {
+      return key === "Value" || key === "Ramp" || key === "Bank" ? undefined : value;
+    })}`;
+  }
+
+  protected getCoalescingKey(message: QsysMessage): string | undefined {
+    if (!this.config.coalesce || !/^(Control|Component|Mixer)\.Set/.test(message.method)) {
+      return undefined;
+    }
+
+    return this.getTargetKey(message);
+  }
+
+  // while the core is unreachable only the latest write per target is kept until it expires
+  protected bufferRequest(message: QsysMessage, options?: RequestOptions): Promise<QsysResponse> {
+    const key = this.getTargetKey(message);
+    const maxAge = toMilliseconds(this.config.bufferMaxAge, 60);
+    const previous = this.buffer.get(key);
+
+    if (previous) {
+      clearTimeout(previous.expiry);
+
+      // superseded writes are replayed at the position of the latest one
+      this.buffer.delete(key);
+    }
+
+    return new Promise<QsysResponse>((resolve, reject) => {
+      const entry: BufferedRequest = {
+        message: message,
+        options: options,
+        expiry: setTimeout(() => {
+          if (this.buffer.get(key) !== entry) {
+            return;
+          }
+
+          this.buffer.delete(key);
+
+          const error = new Error(
+            `Q-SYS device "${this.node.name}" was not reachable within ${maxAge / 1000} seconds.`,
+          );
+          entry.waiters.forEach((waiter) => waiter.reject(error));
+        }, maxAge),
+        waiters: [...(previous?.waiters ?? []), { resolve: resolve, reject: reject }],
+      };
+
+      this.buffer.set(key, entry);
+
+      this.node.debug(`Buffering ${message.method} until ${this.getHost()} is reachable.`);
+    });
+  }
+
+  protected replayBuffer(): void {
+    if (this.buffer.size === 0) {
+      return;
+    }
+
+    this.node.log(`Replaying ${this.buffer.size} buffered requests to ${this.getHost()}.`);
+
+    const entries = [...this.buffer.values()];
+    this.buffer.clear();
+
+    entries.forEach((entry) => {
+      clearTimeout(entry.expiry);
+
+      this.enqueue(entry.message, entry.options)
+        .then((response) => {
+          entry.waiters.forEach((waiter) => waiter.resolve(response));
+        })
+        .catch((e) => {
+          entry.waiters.forEach((waiter) => waiter.reject(e as Error));
+        });
+    });
+  }
+
+  protected coalesce(key: string, message: QsysMessage, options?: RequestOptions): Promise<QsysResponse> {
+    const interval = toMilliseconds(this.config.coalesceInterval, 0.05);
+    const state: CoalescingState = this.coalescing.get(key) ?? {
+      waiters: [],
+    };
+    this.coalescing.set(key, state);
+
+    // sends the latest value at most once per interval, the key is released after an interval without values
+    const flush = () => {
+      if (state.message === undefined) {
+        state.timeout = undefined;
+        this.coalescing.delete(key);
+
+        return;
+      }
+
+      const waiters = state.waiters.splice(0);
+      const pending = state.message;
+      const pendingOptions = state.options;
+
+      state.message = undefined;
+      state.options = undefined;
+      state.timeout = setTimeout(flush, interval);
+
+      this.enqueue(pending, pendingOptions)
+        .then((response) => {
+          waiters.forEach((waiter) => waiter.resolve(response));
+        })
+        .catch((e) => {
+          waiters.forEach((waiter) => waiter.reject(e as Error));
+        });
+    };
+
+    return new Promise<QsysResponse>((resolve, reject) => {
+      // superseded values resolve along with the latest one
+      state.message = message;
+      state.options = options;
+      state.waiters.push({
+        resolve: resolve,
+        reject: reject,
+      });
+
+      if (state.timeout === undefined) {
+        flush();
+      }
+    });
+  }
+
+  protected getMaxInFlight(): number {
+    return Math.max(1, parseInt(`${this.config.maxInFlight ?? 8}`, 10) || 8);
+  }
+
+  protected processQueue(connection: Connection): void {
+    if (connection.processingQueue || connection.queue.length === 0) {
+      return;
+    }
+
+    connection.processingQueue = true;
+
+    this.getSocket(connection)
+      .then((socket) => {
+        while (
+          connection.queue.length !== 0 &&
+          connection.inFlight.size < this.getMaxInFlight() &&
+          !connection.waitingForDrain
+        ) {
+          this.write(connection, socket, connection.queue.shift()!);
+        }
+      })
+      .catch((e) => {
+        connection.queue.splice(0).forEach((request) => {
+          request.reject(e as Error);
+        });
+      })
+      .finally(() => {
+        connection.processingQueue = false;
+      });
+  }
+
+  // ids wrap around before leaving the integer range of the core, skipping those still awaiting a response
+  protected reserveId(connection: Connection): number {
+    do {
+      connection.lastId = connection.lastId >= 0x7fffffff ? 1 : connection.lastId + 1;
+    } while (connection.inFlight.has(connection.lastId));
+
+    return connection.lastId;
+  }
+
+  protected write(connection: Connection, socket: Socket, request: PendingRequest): void {
+    const id = this.reserveId(connection);
+    const timeout = this.getRequestTimeout(request.options);
+
+    request.message.id = id;
+    request.socket = socket;
+    request.timeout = setTimeout(() => {
+      // a late response is dropped by the dispatcher as its id is no longer in flight
+      connection.inFlight.delete(id);
+      request.reject(
+        new Error(
+          `Q-SYS device "${this.node.name}" did not respond to ${request.message.method} within ${timeout / 1000} seconds.`,
+        ),
+      );
+
+      this.processQueue(connection);
+    }, timeout);
+
+    connection.inFlight.set(id, request);
+
+    // hold back further requests until the socket's write buffer has been flushed
+    if (!socket.write(this.encapsulate(request.message)) && socket === connection.socket) {
+      connection.waitingForDrain = true;
+
+      socket.once("drain", () => {
+        connection.waitingForDrain = false;
+        this.processQueue(connection);
+      });
+    }
+  }
+
+  protected dispatch(connection: Connection, response: QsysResponse): void {
+    if (response.id === null || response.id === undefined) {
+      return;
+    }
+
+    const request = connection.inFlight.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    clearTimeout(request.timeout);
+    connection.inFlight.delete(response.id);
+
+    if (response.error !== undefined) {
+      // never hand out the credentials of a failed logon
+      const failed = request.message.method === "Logon" ? { method: "Logon", params: 0 as const } : request.message;
+
+      request.reject(new QSysApiError(response.error.code, response.error.message, failed));
+    } else {
+      request.resolve(response);
+    }
+
+    this.processQueue(connection);
+  }
+
+  protected rejectInFlight(connection: Connection, socket: Socket, error: Error): void {
+    connection.inFlight.forEach((request, id) => {
+      if (request.socket === socket) {
+        clearTimeout(request.timeout);
+        connection.inFlight.delete(id);
+
+        request.reject(error);
+      }
+    });
+  }
+
+  protected receive(connection: Connection, socket: Socket, frame: string) {
+    let obj: QsysResponse;
+
+    try {
+      obj = JSON.parse(frame) as QsysResponse;
+    } catch (err) {
+      this.dropFrame(`${err instanceof Error ? err.message : "Invalid JSON"}: ${frame.slice(0, 200)}`);
+
+      return;
+    }
+
+    if (obj === null || typeof obj !== "object" || Array.isArray(obj)) {
+      this.dropFrame(`Frame is not a JSON-RPC object: ${frame.slice(0, 200)}`);
+
+      return;
+    }
+
+    try {
+      const poll = this.extractChangeGroupPoll(obj);
+      if (poll) {
+        poll.Changes.forEach((change) => {
+          this.changeListeners.forEach((listener) => {
+            listener(change, poll.Id);
+          });
+        });
+      }
+
+      // the state of the core is tracked on the resolved control connection only
+      const current = socket === connection.socket;
+      if (current && "method" in obj && (obj.method !== "EngineStatus" || connection.name === "control")) {
+        switch (obj.method) {
+          case "EngineStatus": {
+            const data = obj as QsysResponseEngineStatus;
+
+            this.handleEngineStatus(data.params);
+
+            break;
+          }
+
+          default:
+            break;
+        }
+
+        // listeners are notified after the notification has been applied to the connection's state
+        this.notificationListeners.forEach((listener) => {
+          listener(obj);
+        });
+      }
+
+      if (current && obj.error?.code === -32604 && connection.name === "control") {
+        this.handleStandby();
+      }
+
+      this.dispatch(connection, obj);
+    } catch (err) {
+      if (err instanceof Error) {
+        this.node.error(err.message);
+      }
+    }
+  }
+
+  // malformed frames are counted in the health report, only the first one is logged as warning
+  protected dropFrame(reason: string): void {
+    if (this.lastDroppedFrame === undefined) {
+      this.node.warn(`Dropped a frame received from ${this.getHost()}. ${reason}`);
+    } else {
+      this.node.debug(`Dropped a frame received from ${this.getHost()}. ${reason}`);
+    }
+
+    this.droppedFrames++;
+    this.lastDroppedFrame = reason;
+  }
+
+  protected extractChangeGroupPoll(obj: QsysResponse): ChangeGroupPollResult | undefined {
+    // polls are either pushed as notification or returned as result of the AutoPoll / Poll request
+    const data = obj as QsysResponseChangeGroupPoll;
+    const poll = data.method === "ChangeGroup.Poll" ? (data.params ?? data.result) : data.result;
+
+    if (poll && typeof poll === "object" && typeof poll.Id === "string" && Array.isArray(poll.Changes)) {
+      return poll;
+    }
+
+    return undefined;
+  }
+
+  protected updateStatus(status: Status, error?: Error) {
+    this.status = status;
+
+    if (status === "Connected") {
+      this.connectedSince = Date.now();
+    } else if (status === "Error" || status === "Inactive") {
+      this.connectedSince = undefined;
+      this.engineStatus = undefined;
+    }
+
+    if (error) {
+      this.lastError = { message: error.message, at: Date.now() };
+    }
+
+    this.statusCallbacks.forEach((callback, nodeId) => {
+      callback(this.getConnection("control").socket, status, error);
+
+      if (status === "Connected" || status === "Active") {
+        this.reportMissingNames(nodeId);
+      }
+    });
+  }
+
+  public getHealth(): ConnectionHealth {
+    return {
+      host: this.getHost(),
+      status: this.status,
+      connectedSince: this.connectedSince,
+      uptime: this.connectedSince !== undefined ? (Date.now() - this.connectedSince) / 1000 : undefined,
+      roundTrip: this.roundTrip,
+      lastError: this.lastError?.message,
+      lastErrorAt: this.lastError?.at,
+      engine: this.engineStatus,
+      droppedFrames: this.droppedFrames,
+      lastDroppedFrame: this.lastDroppedFrame,
+      bufferedRequests: this.buffer.size,
+    };
+  }
+
+  public registerStatusCallback(nodeId: string, callback: StatusCallback): void {
+    if (!this.statusCallbacks.has(nodeId)) {
+      this.statusCallbacks.set(nodeId, callback);
+    }
+  }
+
+  public unregisterStatusCallback(nodeId: string): void {
+    if (this.statusCallbacks.has(nodeId)) {
+      this.statusCallbacks.delete(nodeId);
+    }
+  }
+
+  public registerChangeListener(listener: ChangeListener): void {
+    this.changeListeners.add(listener);
+  }
+
+  public unregisterChangeListener(listener: ChangeListener): void {
+    this.changeListeners.delete(listener);
+  }
+
+  public registerNotificationListener(listener: NotificationListener): void {
+    this.notificationListeners.add(listener);
+  }
+
+  public unregisterNotificationListener(listener: NotificationListener): void {
+    this.notificationListeners.delete(listener);
+  }
+
+  public registerDesignChangeListener(listener: DesignChangeListener): void {
+    this.designChangeListeners.add(listener);
+  }
+
+  public unregisterDesignChangeListener(listener: DesignChangeListener): void {
+    this.designChangeListeners.delete(listener);
+  }
+
+  // the references are validated whenever the design of the core changes
+  public watchNames(nodeId: string, references: NameReferences): void {
+    this.nameWatches.set(nodeId, {
+      references: references,
+      missing: [],
+    });
+  }
+
+  public unwatchNames(nodeId: string): void {
+    this.nameWatches.delete(nodeId);
+  }
+
+  // looks up which of the referenced components and controls do not exist in the running design
+  public async findMissingNames(references: NameReferences): Promise<string[]> {
+    const missing: string[] = [];
+
+    if (references.components?.length) {
+      const components = (await this.getComponents()).map((component) => component.Name);
+
+      references.components
+        .filter((component) => !components.includes(component))
+        .forEach((component) => missing.push(component));
+    }
+
+    for (const component of references.componentControls ?? []) {
+      if (missing.includes(component.Name)) {
+        continue;
+      }
+
+      try {
+        const controls = (await this.getControls(component.Name)).map((control) => control.Name);
+
+        component.Controls.filter((control) => !controls.includes(control)).forEach((control) =>
+          missing.push(`${component.Name}.${control}`),
+        );
+      } catch (e) {
+        if (!(e instanceof QSysApiError) || e.code !== 7) {
+          throw e;
+        }
+
+        missing.push(component.Name);
+      }
+    }
+
+    // named controls can only be looked up one by one as the core fails the whole request for an unknown one
+    for (const control of references.controls ?? []) {
+      try {
+        await this.send({
+          method: "Control.Get",
+          params: [control],
+        });
+      } catch (e) {
+        if (!(e instanceof QSysApiError) || e.code !== 8) {
+          throw e;
+        }
+
+        missing.push(control);
+      }
+    }
+
+    return missing;
+  }
+
+  public async registerChangeGroup(definition: ChangeGroupDefinition): Promise<void> {
+    const connection = this.getConnectionFor("ChangeGroup.AutoPoll");
+
+    this.changeGroups.set(definition.Id, definition);
+
+    if (connection.socket) {
+      await this.setupChangeGroup(definition);
+    } else {
+      // change groups are set up once the connection is established
+      await this.getSocket(connection);
+    }
+  }
+
+  public async unregisterChangeGroup(id: string): Promise<void> {
+    if (!this.changeGroups.delete(id) || !this.getConnectionFor("ChangeGroup.Destroy").socket) {
+      return;
+    }
+
+    await this.send({
+      method: "ChangeGroup.Destroy",
+      params: {
+        Id: id,
+      },
+    });
+  }
+
+  public async invalidateChangeGroup(id: string): Promise<void> {
+    if (!this.changeGroups.has(id)) {
+      return;
+    }
+
+    await this.send({
+      method: "ChangeGroup.Invalidate",
+      params: {
+        Id: id,
+      },
+    });
+  }
+
+  protected async setupChangeGroup(definition: ChangeGroupDefinition): Promise<void> {
+    if (definition.Controls.length !== 0) {
+      await this.send({
+        method: "ChangeGroup.AddControl",
+        params: {
+          Id: definition.Id,
+          Controls: definition.Controls,
+        },
+      });
+    }
+
+    for (const component of definition.Components) {
+      await this.send({
+        method: "ChangeGroup.AddComponentControl",
+        params: {
+          Id: definition.Id,
+          Component: component,
+        },
+      });
+    }
+
+    await this.send({
+      method: "ChangeGroup.AutoPoll",
+      params: {
+        Id: definition.Id,
+        Rate: definition.Rate,
+      },
+    });
+  }
+
+  public async getComponentList() {
+    return await this.send({
+      method: "Component.GetComponents",
+      params: undefined,
+    });
+  }
+
+  // the inventory of the design is cached until the design changes
+  public getComponents(): Promise<QSysResponseComonentsItem[]> {
+    if (!this.componentCache) {
+      const components = this.getComponentList().then((response) => response.result as QSysResponseComonentsItem[]);
+
+      components.catch(() => {
+        if (this.componentCache === components) {
+          this.componentCache = undefined;
+        }
+      });
+
+      this.componentCache = components;
+    }
+
+    return this.componentCache;
+  }
+
+  public getControls(component: string): Promise<QSysResponseComonentsItemControl[]> {
+    let controls = this.controlCache.get(component);
+
+    if (!controls) {
+      const request = this.send({
+        method: "Component.GetControls",
+        params: {
+          Name: component,
+        },
+      }).then((response) => (response as QSysResponseComonentsControls).result.Controls);
+
+      request.catch(() => {
+        if (this.controlCache.get(component) === request) {
+          this.controlCache.delete(component);
+        }
+      });
+
+      this.controlCache.set(component, request);
+      controls = request;
+    }
+
+    return controls;
+  }
+
+  // walks the whole design, one row per control
+  public async getInventory(): Promise<InventoryRow[]> {
+    const rows: InventoryRow[] = [];
+
+    for (const component of await this.getComponents()) {
+      (await this.getControls(component.Name)).forEach((control) => {
+        rows.push({
+          component: component.Name,
+          componentType: component.Type,
+          control: control.Name,
+          controlType: control.Type,
+          direction: control.Direction ?? "",
+          valueMin: control.ValueMin,
+          valueMax: control.ValueMax,
+          stringMin: control.StringMin,
+          stringMax: control.StringMax,
+        });
+      });
+    }
+
+    return rows;
+  }
+
+  public invalidateInventory(): void {
+    this.componentCache = undefined;
+    this.controlCache.clear();
+  }
+}
+
+interface InventoryQuery {
+  types: string[];
+  name: string | undefined;
+  offset: number;
+  limit: number | undefined;
+  withControls: boolean;
+  refresh: boolean;
+}
+
+function parseInventoryQuery(query: Record<string, unknown>): InventoryQuery {
+  const flag = (value: unknown) => value === "1" || value === "true";
+  const offset = parseInt(`${query.offset as string}`, 10);
+  const limit = parseInt(`${query.limit as string}`, 10);
+
+  return {
+    types: typeof query.type === "string" && query.type !== "" ? query.type.split(",") : [],
+    name: typeof query.name === "string" && query.name !== "" ? query.name.toLowerCase() : undefined,
+    offset: isNaN(offset) || offset < 0 ? 0 : offset,
+    limit: isNaN(limit) || limit < 1 ? undefined : limit,
+    withControls: flag(query.controls),
+    refresh: flag(query.refresh),
+  };
+}
+
+function filterInventory<T extends { Name: string; Type: string }>(items: T[], query: InventoryQuery): T[] {
+  return items.filter((item) => {
+    if (query.types.length !== 0 && !query.types.includes(item.Type)) {
+      return false;
+    }
+
+    return query.name === undefined || item.Name.toLowerCase().includes(query.name);
+  });
+}
+
+function toCsv(rows: InventoryRow[]): string {
+  const columns: (keyof InventoryRow)[] = [
+    "component",
+    "componentType",
+    "control",
+    "controlType",
+    "direction",
+    "valueMin",
+    "valueMax",
+    "stringMin",
+    "stringMax",
+  ];
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? "" : `${value as string}`;
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((line) => line.map(escape).join(","))
+    .join("\r\n");
+}
+
+function paginateInventory<T>(items: T[], query: InventoryQuery): T[] {
+  return items.slice(query.offset, query.limit !== undefined ? query.offset + query.limit : undefined);
+}
+
+export default (RED: NodeAPI): void => {
+  RED.nodes.registerType(
+    "qsys-config",
+    function (this: QsysConfigNode<Config>, config: Config) {
+      RED.nodes.createNode(this, config);
+
+      this.nodeHandler = new NodeHandler(this, config, RED);
+    },
     {
       credentials: {
         username: {
@@ -519,13 +1842,67 @@ export default (RED: NodeAPI): void => {
       return;
     }
 
+    const query = parseInventoryQuery(req.query);
+    if (query.refresh) {
+      node.nodeHandler.invalidateInventory();
+    }
+
     node.nodeHandler
-      .getComponentList()
-      .then((response) => {
+      .getComponents()
+      .then(async (components) => {
+        const filtered = filterInventory(components, query);
+        let result = paginateInventory(filtered, query);
+
+        if (query.withControls) {
+          result = await Promise.all(
+            result.map(async (component) => {
+              return {
+                ...component,
+                Controls: await node.nodeHandler.getControls(component.Name),
+              };
+            }),
+          );
+        }
+
         res
           .setHeader("Content-Type", "application/json")
+          .setHeader("X-Total-Count", `${filtered.length}`)
           .status(200)
-          .send(JSON.stringify(response.result, null, 2));
+          .send(JSON.stringify(result, null, 2));
+      })
+      .catch((err) => {
+        res
+          .setHeader("Content-Type", "application/json")
+          .status(503)
+          .send(JSON.stringify(err, null, 2));
+      });
+  });
+
+  RED.httpAdmin.get("/qsys/:id/inventory", RED.auth.needsPermission("qsys-config.components"), (req, res) => {
+    const nodeId = req.params.id;
+    const node = RED.nodes.getNode(nodeId) as QsysConfigNode<Config> | undefined;
+
+    if (!node) {
+      res.sendStatus(404);
+
+      return;
+    }
+
+    const format = req.query.format === "csv" ? "csv" : "json";
+    const filename = `${(node.name || "qsys").replace(/[^\w.-]+/g, "_")}-inventory.${format}`;
+
+    if (parseInventoryQuery(req.query).refresh) {
+      node.nodeHandler.invalidateInventory();
+    }
+
+    node.nodeHandler
+      .getInventory()
+      .then((rows) => {
+        res
+          .setHeader("Content-Type", format === "csv" ? "text/csv" : "application/json")
+          .setHeader("Content-Disposition", `attachment; filename="${filename}"`)
+          .status(200)
+          .send(format === "csv" ? toCsv(rows) : JSON.stringify(rows, null, 2));
       })
       .catch((err) => {
         res
@@ -549,20 +1926,18 @@ export default (RED: NodeAPI): void => {
         return;
       }
 
+      const query = parseInventoryQuery(req.query);
+
       node.nodeHandler
-        .send({
-          method: "Component.GetControls",
-          params: {
-            Name: component,
-          },
-        })
-        .then((response) => {
-          const data = response as QSysResponseComonentsControls;
+        .getControls(component)
+        .then((controls) => {
+          const filtered = filterInventory(controls, query);
 
           res
             .setHeader("Content-Type", "application/json")
+            .setHeader("X-Total-Count", `${filtered.length}`)
             .status(200)
-            .send(JSON.stringify(data.result.Controls, null, 2));
+            .send(JSON.stringify(paginateInventory(filtered, query), null, 2));
         })
         .catch((err) => {
           if (err instanceof QSysApiError) {
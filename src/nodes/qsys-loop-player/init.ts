@@ -0,0 +1,197 @@
+import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
+import { LoopPlayerAction, LoopPlayerFile } from "./qsys-loop-player";
+import { QSysResponseComonentsItem } from "../qsys-config/qsys-config";
+
+declare const RED: EditorRED;
+
+interface Defaults extends EditorNodeProperties {
+  codename: string;
+  action: LoopPlayerAction;
+  files: LoopPlayerFile[];
+  startTime: number | undefined;
+  loop: boolean;
+  seek: number | undefined;
+  refId: string;
+  log: boolean;
+  core: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
+}
+
+type AutoCompleteResult = {
+  value: string;
+  label: string;
+  i: number;
+};
+
+RED.nodes.registerType("qsys-loop-player", {
+  category: "Q-SYS",
+  paletteLabel: "Q-SYS Loop Player",
+  color: "#1a7ab9",
+  icon: "qsys-loop-player.svg",
+  inputs: 1,
+  outputs: 1,
+  defaults: {
+    name: {
+      value: "Q-SYS Loop Player",
+      required: false,
+    },
+    core: {
+      value: "",
+      type: "qsys-config",
+    },
+    codename: {
+      value: "",
+      required: true,
+    },
+    action: {
+      value: "Start",
+      required: true,
+    },
+    files: {
+      value: [],
+      required: false,
+    },
+    startTime: {
+      value: undefined,
+      required: false,
+    },
+    loop: {
+      value: false,
+      required: false,
+    },
+    seek: {
+      value: undefined,
+      required: false,
+    },
+    refId: {
+      value: "",
+      required: false,
+    },
+    log: {
+      value: false,
+      required: false,
+    },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
+  },
+  label: function () {
+    return this.name || "Q-SYS Loop Player";
+  },
+  oneditprepare: function () {
+    const actionField = document.getElementById("node-input-action") as HTMLSelectElement;
+    const actionChangeCallback = () => {
+      ["startTime", "loop", "seek", "refId"].forEach((parameter) => {
+        const element = document
+          .getElementById(`node-input-${parameter}`)
+          ?.closest(".form-row") as HTMLDivElement | null;
+        if (element) {
+          element.style.display = actionField.value === "Start" ? "block" : "none";
+        }
+      });
+    };
+
+    actionField.addEventListener("change", actionChangeCallback);
+    actionChangeCallback();
+
+    $("#node-input-files-container")
+      .css("min-height", "150px")
+      .css("min-width", "450px")
+      .editableList<LoopPlayerFile>({
+        addItem: (row, _index, data) => {
+          $("<input>", { type: "text", class: "node-input-file-name" })
+            .css("width", "60%")
+            .attr("placeholder", RED._("qsys-loop-player.placeholder.file"))
+            .val(data.Name ?? "")
+            .appendTo(row);
+
+          const mode = $("<select>", { class: "node-input-file-mode" })
+            .css("width", "18%")
+            .css("margin-left", "2%")
+            .appendTo(row);
+          ["mono", "stereo"].forEach((value) => {
+            $("<option>")
+              .val(value)
+              .text(RED._(`qsys-loop-player.mode.${value}`))
+              .appendTo(mode);
+          });
+          mode.val(data.Mode ?? "mono");
+
+          $("<input>", { type: "number", class: "node-input-file-output", min: 1 })
+            .css("width", "18%")
+            .css("margin-left", "2%")
+            .attr("placeholder", RED._("qsys-loop-player.placeholder.output"))
+            .val(data.Output ?? "")
+            .appendTo(row);
+        },
+        removable: true,
+        sortable: true,
+      });
+
+    (this.files ?? []).forEach((file) => {
+      $("#node-input-files-container").editableList("addItem", file);
+    });
+
+    // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
+    $("#node-input-codename").autoComplete({
+      search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
+        if (!this.core) {
+          return;
+        }
+
+        return $.ajax({
+          url: `qsys/${this.core}/components`,
+          method: "GET",
+          data: {
+            type: "loop_player",
+            name: value,
+          },
+        }).done((response: QSysResponseComonentsItem[]) => {
+          const matches: AutoCompleteResult[] = [];
+
+          response.forEach((component) => {
+            const i = component.Name.toLowerCase().indexOf(value.toLowerCase());
+            if (i > -1 && component.Type === "loop_player") {
+              matches.push({
+                value: component.Name,
+                label: component.Name,
+                i: i,
+              });
+            }
+          });
+
+          matches.sort((a, b) => {
+            return a.i - b.i;
+          });
+
+          done(matches);
+        });
+      },
+    });
+  },
+  oneditsave: function () {
+    const files: LoopPlayerFile[] = [];
+
+    $("#node-input-files-container")
+      .editableList("items")
+      .each(function () {
+        const name = `${$(this).find(".node-input-file-name").val() as string}`.trim();
+        if (name) {
+          files.push({
+            Name: name,
+            Mode: $(this).find(".node-input-file-mode").val() as LoopPlayerFile["Mode"],
+            Output: parseInt(`${$(this).find(".node-input-file-output").val() as string}`, 10) || 1,
+          });
+        }
+      });
+
+    this.files = files;
+
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
+} as EditorNodeDef<Defaults>);
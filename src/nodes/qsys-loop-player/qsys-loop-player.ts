@@ -0,0 +1,236 @@
+import { Node, NodeAPI, NodeDef } from "node-red";
+import {
+  Config as QsysConfigNodeConfig,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
+  NotificationListener,
+  QsysConfigNode,
+  QsysMessage,
+} from "../qsys-config/qsys-config";
+import { NodeMessage, NodeStatus } from "@node-red/registry";
+
+export type LoopPlayerAction = "Start" | "Stop" | "Cancel";
+
+export interface LoopPlayerFile {
+  Name: string;
+  Mode: "mono" | "stereo";
+  Output: number;
+}
+
+export interface MessageIn extends NodeMessage {
+  action?: LoopPlayerAction;
+  files?: LoopPlayerFile[];
+  outputs?: number[];
+  startTime?: number;
+  loop?: boolean;
+  seek?: number;
+  refId?: string;
+}
+
+export interface MessageOut extends NodeMessage {
+  topic: string;
+  payload: unknown;
+  error?: ErrorDetails;
+}
+
+export interface Config extends NodeDef {
+  core: string;
+  codename: string;
+  action: LoopPlayerAction;
+  files: LoopPlayerFile[];
+  startTime: number | string | undefined;
+  loop: boolean;
+  seek: number | string | undefined;
+  refId: string | undefined;
+  log: boolean;
+  errorOutput: 0 | 1 | undefined;
+}
+
+class NodeHandler {
+  protected node: Node<Config>;
+
+  protected config: Config;
+
+  protected nodeApi: NodeAPI;
+
+  protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
+
+  protected notificationListener: NotificationListener;
+
+  constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
+    this.node = node;
+    this.config = config;
+    this.nodeApi = nodeApi;
+    this.core = this.nodeApi.nodes.getNode(config.core) as QsysConfigNode<QsysConfigNodeConfig>;
+
+    this.core.nodeHandler.registerStatusCallback(this.node.id, (_socket, status, error) => {
+      const nodeStatus: NodeStatus = {
+        fill: "grey",
+        shape: "dot",
+        text: "",
+      };
+
+      switch (status) {
+        case "Inactive":
+          nodeStatus.fill = "grey";
+          nodeStatus.text = "Inactive.";
+          break;
+
+        case "Error":
+          nodeStatus.fill = "red";
+          nodeStatus.text = error instanceof Error ? error.message : "Failure.";
+          break;
+
+        case "Connected":
+        case "Active":
+          nodeStatus.fill = "green";
+          nodeStatus.text = "Connected.";
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
+        default:
+          break;
+      }
+
+      this.node.status(nodeStatus);
+    });
+
+    // errors of running jobs are pushed by the core
+    this.notificationListener = (notification) => {
+      const params = notification.params as { Name?: string } | undefined;
+
+      if (notification.method === "LoopPlayer.Error" && (!params?.Name || params.Name === this.config.codename)) {
+        const message: MessageOut = {
+          topic: "LoopPlayer.Error",
+          payload: params,
+        };
+
+        this.node.send(message);
+      }
+    };
+
+    this.core.nodeHandler.registerNotificationListener(this.notificationListener);
+
+    this.core.nodeHandler.watchNames(this.node.id, { components: [this.config.codename] });
+
+    this.node.on("close", () => {
+      this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unwatchNames(this.node.id);
+      this.core?.nodeHandler.unregisterNotificationListener(this.notificationListener);
+    });
+
+    this.node.on("input", (msg, _send, done) => {
+      const message = msg as MessageIn;
+      const output = msg as MessageOut;
+      const action = message.action ?? this.config.action ?? "Start";
+
+      output.topic = `LoopPlayer.${action}`;
+
+      let params: object;
+      try {
+        params = this.buildParams(action, message);
+      } catch (e) {
+        output.payload = false;
+
+        handleError(
+          this.node,
+          e,
+          output,
+          { method: `LoopPlayer.${action}` },
+          { errorOutput: this.config.errorOutput, forward: true },
+        );
+
+        return done();
+      }
+
+      const request: Partial<QsysMessage> = {
+        method: `LoopPlayer.${action}`,
+        params: params,
+      };
+
+      this.core?.nodeHandler
+        .send(request, getRequestOptions(msg))
+        .then((response) => {
+          output.payload = response.result ?? true;
+
+          this.node.send(output);
+        })
+        .catch((e) => {
+          output.payload = false;
+
+          handleError(this.node, e, output, request, { errorOutput: this.config.errorOutput, forward: true });
+        })
+        .finally(() => {
+          done();
+        });
+    });
+  }
+
+  protected buildParams(action: LoopPlayerAction, message: MessageIn): object {
+    const files = message.files ?? this.config.files ?? [];
+
+    switch (action) {
+      case "Start": {
+        if (files.length === 0) {
+          throw new Error("No files have been selected.");
+        }
+
+        const seek = this.parseNumber(message.seek ?? this.config.seek);
+        const refId = message.refId ?? this.config.refId;
+
+        return {
+          Name: this.config.codename,
+          Files: files.map((file) => {
+            return {
+              Name: file.Name,
+              Mode: file.Mode ?? "mono",
+              Output: this.parseNumber(file.Output),
+            };
+          }),
+          StartTime: this.parseNumber(message.startTime ?? this.config.startTime) ?? 0,
+          Loop: message.loop ?? !!this.config.loop,
+          Seek: seek,
+          RefID: refId ? refId : undefined,
+          Log: !!this.config.log,
+        };
+      }
+
+      case "Stop":
+      case "Cancel": {
+        const outputs = message.outputs ?? files.map((file) => this.parseNumber(file.Output));
+
+        return {
+          Name: this.config.codename,
+          Outputs: outputs.filter((output) => output !== undefined),
+          Log: !!this.config.log,
+        };
+      }
+
+      default:
+        throw new Error(`Action '${action as any}' is not supported.`);
+    }
+  }
+
+  protected parseNumber(input: number | string | undefined): number | undefined {
+    if (input === undefined || input === null || input === "") {
+      return undefined;
+    }
+
+    const value = typeof input === "string" ? parseFloat(input) : input;
+
+    return isNaN(value) ? undefined : value;
+  }
+}
+
+export default (RED: NodeAPI): void => {
+  RED.nodes.registerType("qsys-loop-player", function (this: Node<Config>, config: Config) {
+    RED.nodes.createNode(this, config);
+
+    new NodeHandler(this, config, RED);
+  });
+};
@@ -1,17 +1,21 @@
 import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
-import { MixerControlMethod } from "./qsys-mixer";
+import { MixerControlMethod, MixerReadMethod } from "./qsys-mixer";
 import { QSysResponseComonentsItem } from "../qsys-config/qsys-config";
 
 declare const RED: EditorRED;
 
 interface Defaults extends EditorNodeProperties {
   codename: string;
-  method: MixerControlMethod | undefined;
+  method: MixerControlMethod | MixerReadMethod | undefined;
   ins: number[] | "*" | undefined;
   outs: number[] | "*" | undefined;
   cues: number[] | "*" | undefined;
   ramp: number | undefined;
+  subscribe: 0 | 1 | undefined;
+  rate: number | undefined;
   core: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
 }
 
 type AutoCompleteResult = {
@@ -26,7 +30,7 @@ RED.nodes.registerType("qsys-mixer", {
   color: "#1a7ab9",
   icon: "qsys-mixer.svg",
   inputs: 1,
-  outputs: 0,
+  outputs: 1,
   defaults: {
     name: {
       value: "Mixer",
@@ -56,10 +60,25 @@ RED.nodes.registerType("qsys-mixer", {
       value: undefined,
       required: false,
     },
+    subscribe: {
+      value: 0,
+      required: false,
+    },
+    rate: {
+      value: 0.5,
+      required: false,
+    },
     core: {
       value: "",
       type: "qsys-config",
     },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
   },
   label: function () {
     return this.name || "Mixer";
@@ -83,6 +102,17 @@ RED.nodes.registerType("qsys-mixer", {
     methodField.addEventListener("change", methodChangeCallback);
     methodChangeCallback();
 
+    const subscribeField = document.getElementById("node-input-subscribe") as HTMLInputElement;
+    const subscribeChangeCallback = () => {
+      const element = document.getElementById("node-input-rate")?.closest(".form-row") as HTMLDivElement | null;
+      if (element) {
+        element.style.display = subscribeField.checked ? "block" : "none";
+      }
+    };
+
+    subscribeField.addEventListener("change", subscribeChangeCallback);
+    subscribeChangeCallback();
+
     // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
     $("#node-input-codename").autoComplete({
       search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
@@ -93,6 +123,10 @@ RED.nodes.registerType("qsys-mixer", {
         return $.ajax({
           url: `qsys/${this.core}/components`,
           method: "GET",
+          data: {
+            type: "mixer",
+            name: value,
+          },
         }).done((response: QSysResponseComonentsItem[]) => {
           const matches: AutoCompleteResult[] = [];
 
@@ -116,4 +150,7 @@ RED.nodes.registerType("qsys-mixer", {
       },
     });
   },
+  oneditsave: function () {
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
 } as EditorNodeDef<Defaults>);
@@ -1,11 +1,16 @@
 import { Node, NodeAPI, NodeDef } from "node-red";
 import { NodeMessage, NodeStatus } from "@node-red/registry";
 import {
+  ChangeListener,
   Config as QsysConfigNodeConfig,
+  DesignChangeListener,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
   QSysApiError,
   QsysConfigNode,
   QsysMessage,
-  reserveId,
+  QSysResponseComonentsControls,
 } from "../qsys-config/qsys-config";
 
 export type MixerControlMethod =
@@ -23,18 +28,75 @@ export type MixerControlMethod =
   | "SetInputCueEnable"
   | "SetInputCueAfl";
 
+export type MixerReadMethod = "GetCrossPoints" | "GetInputs" | "GetOutputs" | "GetCues" | "GetAll";
+
+export type MixerControlType = "crosspoint" | "input" | "output" | "cue" | "inputCue";
+
+export interface MixerControl {
+  type: MixerControlType;
+  in?: number;
+  out?: number;
+  cue?: number;
+  property: string;
+}
+
+type MixerProperties = Record<string, unknown>;
+
+export interface MixerChange extends MixerControl {
+  value: unknown;
+}
+
+export interface MixerState {
+  inputs?: Record<number, MixerProperties>;
+  outputs?: Record<number, MixerProperties>;
+  crosspoints?: Record<number, Record<number, MixerProperties>>;
+  cues?: Record<number, MixerProperties>;
+  inputCues?: Record<number, Record<number, MixerProperties>>;
+}
+
+export function parseMixerControlName(name: string): MixerControl | undefined {
+  let match = /^input\.(\d+)\.output\.(\d+)\.(\w+)$/.exec(name);
+  if (match) {
+    return { type: "crosspoint", in: parseInt(match[1], 10), out: parseInt(match[2], 10), property: match[3] };
+  }
+
+  match = /^input\.(\d+)\.cue\.(\d+)\.(\w+)$/.exec(name);
+  if (match) {
+    return { type: "inputCue", in: parseInt(match[1], 10), cue: parseInt(match[2], 10), property: match[3] };
+  }
+
+  match = /^(input|output|cue)\.(\d+)\.(\w+)$/.exec(name);
+  if (match) {
+    const index = parseInt(match[2], 10);
+
+    switch (match[1]) {
+      case "input":
+        return { type: "input", in: index, property: match[3] };
+      case "output":
+        return { type: "output", out: index, property: match[3] };
+      default:
+        return { type: "cue", cue: index, property: match[3] };
+    }
+  }
+
+  return undefined;
+}
+
 export interface Config extends NodeDef {
   core: string;
   codename: string;
-  method: MixerControlMethod;
+  method: MixerControlMethod | MixerReadMethod;
   ins: number[] | "*"[];
   outs: number[] | "*"[];
   cues: number[] | "*"[];
   ramp: number;
+  subscribe: 0 | 1 | undefined;
+  rate: number | string | undefined;
+  errorOutput: 0 | 1 | undefined;
 }
 
 export interface MessageIn extends NodeMessage {
-  method?: MixerControlMethod;
+  method?: MixerControlMethod | MixerReadMethod;
   payload: boolean | string | number;
   ins?: number[] | "*";
   outs?: number[] | "*";
@@ -42,6 +104,10 @@ export interface MessageIn extends NodeMessage {
   ramp?: number;
 }
 
+export interface MessageOut extends NodeMessage {
+  error?: ErrorDetails;
+}
+
 class NodeHandler {
   protected node: Node<Config>;
 
@@ -51,6 +117,12 @@ class NodeHandler {
 
   protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
 
+  protected designChangeListener: DesignChangeListener;
+
+  protected changeListener: ChangeListener | undefined = undefined;
+
+  protected subscribed: boolean = false;
+
   constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
     this.node = node;
     this.config = config;
@@ -79,6 +151,16 @@ class NodeHandler {
         case "Active":
           nodeStatus.fill = "green";
           nodeStatus.text = "Connected.";
+
+          // retry subscribing if the core has not been reachable before
+          if (this.config.subscribe && !this.subscribed) {
+            this.subscribe();
+          }
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
           break;
 
         default:
@@ -88,10 +170,63 @@ class NodeHandler {
       this.node.status(nodeStatus);
     });
 
-    this.node.on("close", () => {
+    this.core.nodeHandler.watchNames(this.node.id, { components: [this.config.codename] });
+
+    // the mixer's size may have changed with the new design
+    this.designChangeListener = () => {
+      if (this.config.subscribe) {
+        this.resubscribe();
+      }
+    };
+
+    this.core.nodeHandler.registerDesignChangeListener(this.designChangeListener);
+
+    this.node.on("close", (done: () => void) => {
       this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unregisterDesignChangeListener(this.designChangeListener);
+      this.core?.nodeHandler.unwatchNames(this.node.id);
+
+      if (!this.changeListener) {
+        return done();
+      }
+
+      this.core?.nodeHandler.unregisterChangeListener(this.changeListener);
+      this.core?.nodeHandler
+        .unregisterChangeGroup(this.node.id)
+        .catch((e) => {
+          this.node.debug(e);
+        })
+        .finally(() => {
+          done();
+        });
     });
 
+    if (this.config.subscribe) {
+      this.changeListener = (change, groupId) => {
+        if (groupId !== this.node.id) {
+          return;
+        }
+
+        const parsed = parseMixerControlName(change.Name);
+        if (!parsed || !this.isWatched(parsed)) {
+          return;
+        }
+
+        const payload: MixerChange = {
+          ...parsed,
+          value: change.Value,
+        };
+
+        this.node.send({
+          topic: change.Name,
+          payload: payload,
+        });
+      };
+
+      this.core.nodeHandler.registerChangeListener(this.changeListener);
+      this.subscribe();
+    }
+
     this.node.on("input", (msg, _send, done) => {
       const message = msg as MessageIn;
 
@@ -106,13 +241,38 @@ class NodeHandler {
       try {
         this.validate(method, message.payload, additionalData);
       } catch (e) {
-        if (e instanceof Error) {
-          this.node.warn(e.message);
-        }
+        handleError(this.node, e, msg, { method: `Mixer.${method}` }, this.config);
 
         return done();
       }
 
+      if (this.isReadMethod(method)) {
+        const request: Partial<QsysMessage> = {
+          method: "Component.GetControls",
+          params: {
+            Name: this.config.codename,
+          },
+        };
+
+        this.core?.nodeHandler
+          .send(request, getRequestOptions(msg))
+          .then((response) => {
+            const data = response as QSysResponseComonentsControls;
+
+            msg.payload = this.buildState(method, data.result.Controls, additionalData);
+
+            this.node.send(msg);
+          })
+          .catch((e) => {
+            handleError(this.node, e, msg, request, this.config);
+          })
+          .finally(() => {
+            done();
+          });
+
+        return;
+      }
+
       const inputs = Array.isArray(additionalData.ins) ? additionalData.ins.join(" ") : additionalData.ins;
       const outputs = Array.isArray(additionalData.outs) ? additionalData.outs.join(" ") : additionalData.outs;
       const cues = Array.isArray(additionalData.cues) ? additionalData.cues.join(" ") : additionalData.cues;
@@ -122,7 +282,7 @@ class NodeHandler {
           return input;
         }
 
-        return parseInt(input, 10);
+        return parseFloat(input);
       };
 
       const toBool = (input: number | string | boolean): boolean => {
@@ -143,132 +303,310 @@ class NodeHandler {
         return false;
       };
 
+      let sent: Promise<void> = Promise.resolve();
+
       switch (method) {
         case "SetCrossPointGain":
         case "SetCrossPointDelay":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Inputs: inputs,
-              Outputs: outputs,
-              Value: toNumber(message.payload as string | number),
-              Ramp: toNumber(additionalData.ramp ?? 0),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Inputs: inputs,
+                Outputs: outputs,
+                Value: toNumber(message.payload as string | number),
+                Ramp: toNumber(additionalData.ramp ?? 0),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetCrossPointMute":
         case "SetCrossPointSolo":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Inputs: inputs,
-              Outputs: outputs,
-              Value: toBool(message.payload),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Inputs: inputs,
+                Outputs: outputs,
+                Value: toBool(message.payload),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetInputGain":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Inputs: inputs,
-              Value: toNumber(message.payload as string | number),
-              Ramp: toNumber(additionalData.ramp ?? 0),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Inputs: inputs,
+                Value: toNumber(message.payload as string | number),
+                Ramp: toNumber(additionalData.ramp ?? 0),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetInputMute":
         case "SetInputSolo":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Inputs: inputs,
-              Value: toBool(message.payload as string | number),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Inputs: inputs,
+                Value: toBool(message.payload as string | number),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetOutputGain":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Outputs: outputs,
-              Value: toNumber(message.payload as string | number),
-              Ramp: toNumber(additionalData.ramp ?? 0),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Outputs: outputs,
+                Value: toNumber(message.payload as string | number),
+                Ramp: toNumber(additionalData.ramp ?? 0),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetOutputMute":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Outputs: outputs,
-              Value: toBool(message.payload as string | number),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Outputs: outputs,
+                Value: toBool(message.payload as string | number),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetCueMute":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Cues: cues,
-              Value: toBool(message.payload as string | number),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Cues: cues,
+                Value: toBool(message.payload as string | number),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetCueGain":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
-              Name: this.config.codename,
-              Cues: cues,
-              Value: toNumber(message.payload as string | number),
-              Ramp: toNumber(additionalData.ramp ?? 0),
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Cues: cues,
+                Value: toNumber(message.payload as string | number),
+                Ramp: toNumber(additionalData.ramp ?? 0),
+              },
             },
-          });
+            msg,
+          );
           break;
 
         case "SetInputCueEnable":
         case "SetInputCueAfl":
-          this.send({
-            id: reserveId(),
-            method: `Mixer.${method}`,
-            params: {
+          sent = this.send(
+            {
+              method: `Mixer.${method}`,
+              params: {
+                Name: this.config.codename,
+                Cues: cues,
+                Inputs: inputs,
+                Value: toBool(message.payload as string | number),
+              },
+            },
+            msg,
+          );
+          break;
+      }
+
+      void sent.finally(() => {
+        done();
+      });
+    });
+  }
+
+  protected resubscribe(): void {
+    this.core?.nodeHandler
+      .unregisterChangeGroup(this.node.id)
+      .catch((e) => {
+        this.node.debug(e);
+      })
+      .finally(() => {
+        this.subscribe();
+      });
+  }
+
+  protected subscribe(): void {
+    this.subscribed = true;
+
+    // all controls of the mixer are watched, so they have to be looked up first
+    this.core?.nodeHandler
+      .send({
+        method: "Component.GetControls",
+        params: {
+          Name: this.config.codename,
+        },
+      })
+      .then((response) => {
+        const data = response as QSysResponseComonentsControls;
+        const controls = data.result.Controls.filter((control) => {
+          const parsed = parseMixerControlName(control.Name);
+
+          return parsed !== undefined && this.isWatched(parsed);
+        });
+
+        return this.core?.nodeHandler.registerChangeGroup({
+          Id: this.node.id,
+          Controls: [],
+          Components: [
+            {
               Name: this.config.codename,
-              Cues: cues,
-              Inputs: inputs,
-              Value: toBool(message.payload as string | number),
+              Controls: controls.map((control) => {
+                return {
+                  Name: control.Name,
+                };
+              }),
             },
-          });
+          ],
+          Rate: this.parseRate(this.config.rate),
+        });
+      })
+      .catch((e) => {
+        this.subscribed = false;
+        this.node.error(e as Error | QSysApiError);
+      });
+  }
+
+  protected isWatched(control: MixerControl): boolean {
+    const ins = this.parseSelections(this.config.ins);
+    const outs = this.parseSelections(this.config.outs);
+    const cues = this.parseSelections(this.config.cues);
+
+    return (
+      (control.in === undefined || this.isSelected(ins, control.in)) &&
+      (control.out === undefined || this.isSelected(outs, control.out)) &&
+      (control.cue === undefined || this.isSelected(cues, control.cue))
+    );
+  }
+
+  // no selection covers all channels
+  protected isSelected(selection: number[] | "*", index: number | undefined): boolean {
+    return selection === "*" || selection.length === 0 || selection.includes(index!);
+  }
+
+  protected parseRate(input: number | string | undefined): number {
+    const rate = typeof input === "string" ? parseFloat(input) : input;
+
+    if (rate === undefined || isNaN(rate) || rate <= 0) {
+      return 0.5;
+    }
+
+    return rate;
+  }
+
+  protected isReadMethod(method: MixerControlMethod | MixerReadMethod): method is MixerReadMethod {
+    return ["GetCrossPoints", "GetInputs", "GetOutputs", "GetCues", "GetAll"].includes(method);
+  }
+
+  protected buildState(
+    method: MixerReadMethod,
+    controls: { Name: string; Value: unknown }[],
+    selections: {
+      ins: number[] | "*";
+      outs: number[] | "*";
+      cues: number[] | "*";
+    },
+  ): MixerState {
+    const types: Record<MixerReadMethod, MixerControlType[]> = {
+      GetCrossPoints: ["crosspoint"],
+      GetInputs: ["input"],
+      GetOutputs: ["output"],
+      GetCues: ["cue", "inputCue"],
+      GetAll: ["crosspoint", "input", "output", "cue", "inputCue"],
+    };
+
+    const state: MixerState = {};
+    controls.forEach((control) => {
+      const parsed = parseMixerControlName(control.Name);
+      if (!parsed || !types[method].includes(parsed.type)) {
+        return;
+      }
+
+      switch (parsed.type) {
+        case "crosspoint":
+          if (this.isSelected(selections.ins, parsed.in) && this.isSelected(selections.outs, parsed.out)) {
+            state.crosspoints ??= {};
+            state.crosspoints[parsed.in!] ??= {};
+            state.crosspoints[parsed.in!][parsed.out!] ??= {};
+            state.crosspoints[parsed.in!][parsed.out!][parsed.property] = control.Value;
+          }
+          break;
+
+        case "inputCue":
+          if (this.isSelected(selections.ins, parsed.in) && this.isSelected(selections.cues, parsed.cue)) {
+            state.inputCues ??= {};
+            state.inputCues[parsed.in!] ??= {};
+            state.inputCues[parsed.in!][parsed.cue!] ??= {};
+            state.inputCues[parsed.in!][parsed.cue!][parsed.property] = control.Value;
+          }
+          break;
+
+        case "input":
+          if (this.isSelected(selections.ins, parsed.in)) {
+            state.inputs ??= {};
+            state.inputs[parsed.in!] ??= {};
+            state.inputs[parsed.in!][parsed.property] = control.Value;
+          }
+          break;
+
+        case "output":
+          if (this.isSelected(selections.outs, parsed.out)) {
+            state.outputs ??= {};
+            state.outputs[parsed.out!] ??= {};
+            state.outputs[parsed.out!][parsed.property] = control.Value;
+          }
+          break;
+
+        case "cue":
+          if (this.isSelected(selections.cues, parsed.cue)) {
+            state.cues ??= {};
+            state.cues[parsed.cue!] ??= {};
+            state.cues[parsed.cue!][parsed.property] = control.Value;
+          }
           break;
       }
-      done();
     });
+
+    return state;
   }
 
   protected validate(
-    method: MixerControlMethod,
+    method: MixerControlMethod | MixerReadMethod,
     payload: unknown,
     _additionalParameters: {
       ramp?: number | undefined;
@@ -279,10 +617,10 @@ class NodeHandler {
   ) {
     const requireNumericValue = () => {
       if (typeof payload === "string") {
-        payload = parseInt(payload, 10);
+        payload = parseFloat(payload);
       }
 
-      if (!isNaN(payload as number)) {
+      if (typeof payload !== "number" || isNaN(payload)) {
         throw new Error(`Value '${payload as any}' (${typeof payload}) is not supported.`);
       }
     };
@@ -314,6 +652,14 @@ class NodeHandler {
         requireBooleanValue();
         break;
 
+      // reading does not require a value
+      case "GetCrossPoints":
+      case "GetInputs":
+      case "GetOutputs":
+      case "GetCues":
+      case "GetAll":
+        break;
+
       default:
         throw new Error(`Method '${method as any}' is not supported.`);
     }
@@ -350,10 +696,12 @@ class NodeHandler {
     return selections;
   }
 
-  protected send(message: Partial<QsysMessage>) {
-    this.core?.nodeHandler.send(message).catch((e) => {
-      this.node.error(e as Error | QSysApiError);
-    });
+  protected async send(message: Partial<QsysMessage>, msg: NodeMessage): Promise<void> {
+    try {
+      await this.core?.nodeHandler.send(message, getRequestOptions(msg));
+    } catch (e) {
+      handleError(this.node, e, msg, message, this.config);
+    }
   }
 }
 
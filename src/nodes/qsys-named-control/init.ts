@@ -4,6 +4,8 @@ declare const RED: EditorRED;
 
 interface Defaults extends EditorNodeProperties {
   codename: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
 }
 
 RED.nodes.registerType("qsys-named-control", {
@@ -26,8 +28,18 @@ RED.nodes.registerType("qsys-named-control", {
       value: "",
       required: true,
     },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
   },
   label: function () {
     return this.name || "Q-SYS Named Control";
   },
+  oneditsave: function () {
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
 } as EditorNodeDef<Defaults>);
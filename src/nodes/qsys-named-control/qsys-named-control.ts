@@ -1,10 +1,12 @@
 import { Node, NodeAPI, NodeDef } from "node-red";
 import {
   Config as QsysConfigNodeConfig,
-  QSysApiError,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
   QsysConfigNode,
+  QsysMessage,
   QsysResponse,
-  reserveId,
 } from "../qsys-config/qsys-config";
 import { NodeMessage, NodeStatus } from "@node-red/registry";
 
@@ -16,6 +18,10 @@ export interface MessageIn extends NodeMessage {
   ramp?: number;
 }
 
+export interface MessageOut extends NodeMessage {
+  error?: ErrorDetails;
+}
+
 interface QSysResponseItem {
   Name: string;
   String?: string;
@@ -34,6 +40,7 @@ export interface QSysResponseControlSet extends QsysResponse {
 export interface Config extends NodeDef {
   core: string;
   codename: string;
+  errorOutput: 0 | 1 | undefined;
 }
 
 class NodeHandler {
@@ -75,6 +82,11 @@ class NodeHandler {
           nodeStatus.text = "Connected.";
           break;
 
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
         default:
           break;
       }
@@ -82,8 +94,13 @@ class NodeHandler {
       this.node.status(nodeStatus);
     });
 
+    this.core.nodeHandler.watchNames(this.node.id, {
+      controls: this.config.codename.split(";").map((control) => control.trim()),
+    });
+
     this.node.on("close", () => {
       this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unwatchNames(this.node.id);
     });
 
     this.node.on("input", (msg) => {
@@ -103,12 +120,13 @@ class NodeHandler {
         params = controls;
       }
 
+      const request: Partial<QsysMessage> = {
+        method: `Control.${action}`,
+        params: params,
+      };
+
       this.core?.nodeHandler
-        .send({
-          id: reserveId(),
-          method: `Control.${action}`,
-          params: params,
-        })
+        .send(request, getRequestOptions(msg))
         .then((response) => {
           const data = response as QSysResponseControlSet | QSysResponseControlGet;
 
@@ -121,7 +139,7 @@ class NodeHandler {
           this.node.send(msg);
         })
         .catch((e) => {
-          this.node.error(e as Error | QSysApiError);
+          handleError(this.node, e, msg, request, this.config);
         });
     });
   }
@@ -0,0 +1,117 @@
+import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
+import { PageAction, PageMode } from "./qsys-page";
+
+declare const RED: EditorRED;
+
+interface Defaults extends EditorNodeProperties {
+  action: PageAction;
+  mode: PageMode;
+  zones: string;
+  zoneTags: string;
+  priority: number | undefined;
+  preamble: string;
+  message: string;
+  station: number | undefined;
+  start: 0 | 1 | undefined;
+  description: string;
+  originator: string;
+  queueTimeout: number | undefined;
+  core: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
+}
+
+RED.nodes.registerType("qsys-page", {
+  category: "Q-SYS",
+  paletteLabel: "Q-SYS Page",
+  color: "#1a7ab9",
+  icon: "qsys-page.svg",
+  inputs: 1,
+  outputs: 2,
+  outputLabels: ["response", "status", "error"],
+  defaults: {
+    name: {
+      value: "Q-SYS Page",
+      required: false,
+    },
+    core: {
+      value: "",
+      type: "qsys-config",
+    },
+    action: {
+      value: "Submit",
+      required: true,
+    },
+    mode: {
+      value: "message",
+      required: true,
+    },
+    zones: {
+      value: "",
+      required: false,
+    },
+    zoneTags: {
+      value: "",
+      required: false,
+    },
+    priority: {
+      value: 3,
+      required: false,
+      validate: RED.validators.number(true),
+    },
+    preamble: {
+      value: "",
+      required: false,
+    },
+    message: {
+      value: "",
+      required: false,
+    },
+    station: {
+      value: undefined,
+      required: false,
+      validate: RED.validators.number(true),
+    },
+    start: {
+      value: 1,
+      required: false,
+    },
+    description: {
+      value: "",
+      required: false,
+    },
+    originator: {
+      value: "Node-RED",
+      required: false,
+    },
+    queueTimeout: {
+      value: undefined,
+      required: false,
+      validate: RED.validators.number(true),
+    },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 2,
+    },
+  },
+  label: function () {
+    return this.name || "Q-SYS Page";
+  },
+  oneditprepare: function () {
+    const modeField = document.getElementById("node-input-mode") as HTMLSelectElement;
+    const modeChangeCallback = () => {
+      document.querySelectorAll<HTMLDivElement>("[data-mode]").forEach((element) => {
+        element.style.display = element.dataset.mode === modeField.value ? "block" : "none";
+      });
+    };
+
+    modeField.addEventListener("change", modeChangeCallback);
+    modeChangeCallback();
+  },
+  oneditsave: function () {
+    this.outputs = 2 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
+} as EditorNodeDef<Defaults>);
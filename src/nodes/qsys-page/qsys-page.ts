@@ -0,0 +1,292 @@
+import { Node, NodeAPI, NodeDef } from "node-red";
+import {
+  Config as QsysConfigNodeConfig,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
+  NotificationListener,
+  QsysConfigNode,
+  QsysMessage,
+} from "../qsys-config/qsys-config";
+import { NodeMessage, NodeStatus } from "@node-red/registry";
+
+export type PageAction = "Submit" | "Start" | "Stop" | "Cancel";
+
+export type PageMode = "message" | "live";
+
+export interface PageStatus {
+  PageID: number;
+  State?: string;
+  SubState?: string;
+  [key: string]: unknown;
+}
+
+export interface MessageIn extends NodeMessage {
+  action?: PageAction;
+  pageId?: number;
+  mode?: PageMode;
+  zones?: number[];
+  zoneTags?: string[];
+  priority?: number;
+  preamble?: string;
+  message?: string;
+  station?: number;
+  description?: string;
+}
+
+export interface MessageOut extends NodeMessage {
+  topic: string;
+  payload: unknown;
+  pageId?: number;
+  error?: ErrorDetails;
+}
+
+export interface Config extends NodeDef {
+  core: string;
+  action: PageAction;
+  mode: PageMode;
+  zones: string;
+  zoneTags: string;
+  priority: number | string;
+  preamble: string;
+  message: string;
+  station: number | string;
+  start: boolean;
+  description: string;
+  originator: string;
+  queueTimeout: number | string;
+  errorOutput: 0 | 1 | undefined;
+}
+
+// states after which the core does not report a page anymore
+const finalStates = ["done", "cancelled", "failed"];
+
+class NodeHandler {
+  protected node: Node<Config>;
+
+  protected config: Config;
+
+  protected nodeApi: NodeAPI;
+
+  protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
+
+  protected notificationListener: NotificationListener;
+
+  protected pages = new Set<number>();
+
+  protected lastPageId: number | undefined = undefined;
+
+  constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
+    this.node = node;
+    this.config = config;
+    this.nodeApi = nodeApi;
+    this.core = this.nodeApi.nodes.getNode(config.core) as QsysConfigNode<QsysConfigNodeConfig>;
+
+    this.core.nodeHandler.registerStatusCallback(this.node.id, (_socket, status, error) => {
+      const nodeStatus: NodeStatus = {
+        fill: "grey",
+        shape: "dot",
+        text: "",
+      };
+
+      switch (status) {
+        case "Inactive":
+          nodeStatus.fill = "grey";
+          nodeStatus.text = "Inactive.";
+          break;
+
+        case "Error":
+          nodeStatus.fill = "red";
+          nodeStatus.text = error instanceof Error ? error.message : "Failure.";
+          break;
+
+        case "Connected":
+        case "Active":
+          nodeStatus.fill = "green";
+          nodeStatus.text = "Connected.";
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
+        default:
+          break;
+      }
+
+      this.node.status(nodeStatus);
+    });
+
+    this.notificationListener = (notification) => {
+      if (notification.method !== "PA.PageStatus") {
+        return;
+      }
+
+      const status = notification.params as PageStatus | undefined;
+      if (!status || !this.pages.has(status.PageID)) {
+        return;
+      }
+
+      if (status.State && finalStates.includes(status.State.toLowerCase())) {
+        this.pages.delete(status.PageID);
+      }
+
+      const message: MessageOut = {
+        topic: "PA.PageStatus",
+        pageId: status.PageID,
+        payload: status,
+      };
+
+      this.node.send([null, message]);
+    };
+
+    this.core.nodeHandler.registerNotificationListener(this.notificationListener);
+
+    this.node.on("close", () => {
+      this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unregisterNotificationListener(this.notificationListener);
+    });
+
+    this.node.on("input", (msg, _send, done) => {
+      const message = msg as MessageIn;
+      const output = msg as MessageOut;
+      const action = message.action ?? this.config.action ?? "Submit";
+
+      output.topic = `PA.Page${action}`;
+
+      let params: object;
+      try {
+        params = action === "Submit" ? this.buildSubmitParams(message) : { PageID: this.getPageId(message) };
+      } catch (e) {
+        output.payload = false;
+
+        handleError(
+          this.node,
+          e,
+          output,
+          { method: `PA.Page${action}` },
+          { errorOutput: this.config.errorOutput, outputs: 2, forward: true },
+        );
+
+        return done();
+      }
+
+      const request: Partial<QsysMessage> = {
+        method: `PA.Page${action}`,
+        params: params,
+      };
+
+      this.core?.nodeHandler
+        .send(request, getRequestOptions(msg))
+        .then((response) => {
+          if (action === "Submit") {
+            const pageId = (response.result as { PageID?: number } | undefined)?.PageID;
+            if (pageId !== undefined) {
+              this.pages.add(pageId);
+              this.lastPageId = pageId;
+            }
+
+            output.pageId = pageId;
+          } else {
+            output.pageId = (params as { PageID: number }).PageID;
+          }
+
+          output.payload = true;
+
+          this.node.send([output, null]);
+        })
+        .catch((e) => {
+          output.payload = false;
+
+          handleError(this.node, e, output, request, {
+            errorOutput: this.config.errorOutput,
+            outputs: 2,
+            forward: true,
+          });
+        })
+        .finally(() => {
+          done();
+        });
+    });
+  }
+
+  protected buildSubmitParams(message: MessageIn): object {
+    const mode = message.mode ?? this.config.mode ?? "message";
+    const zones = message.zones ?? this.parseList(this.config.zones).map((zone) => parseInt(zone, 10));
+    const zoneTags = message.zoneTags ?? this.parseList(this.config.zoneTags);
+
+    if (zones.filter((zone) => !isNaN(zone)).length === 0 && zoneTags.length === 0) {
+      throw new Error("No zones have been selected.");
+    }
+
+    const params: Record<string, unknown> = {
+      Mode: mode,
+      Zones: zones.filter((zone) => !isNaN(zone)),
+      ZoneTags: zoneTags,
+      Priority: this.parseNumber(message.priority ?? this.config.priority) ?? 3,
+      Description: message.description ?? this.config.description ?? "",
+      Originator: this.config.originator || "Node-RED",
+      QueueTimeout: this.parseNumber(this.config.queueTimeout),
+    };
+
+    if (mode === "live") {
+      const station = this.parseNumber(message.station ?? this.config.station);
+      if (station === undefined) {
+        throw new Error("No station has been selected for the live page.");
+      }
+
+      params.Station = station;
+      params.Start = !!this.config.start;
+    } else {
+      const file = message.message ?? (typeof message.payload === "string" ? message.payload : this.config.message);
+      if (!file) {
+        throw new Error("No message has been selected.");
+      }
+
+      params.Message = file;
+      params.Preamble = (message.preamble ?? this.config.preamble) || undefined;
+      params.Start = true;
+    }
+
+    return params;
+  }
+
+  protected getPageId(message: MessageIn): number {
+    const pageId = message.pageId ?? this.lastPageId;
+    if (pageId === undefined) {
+      throw new Error("No page has been submitted yet.");
+    }
+
+    return pageId;
+  }
+
+  protected parseList(input: string | undefined): string[] {
+    if (!input) {
+      return [];
+    }
+
+    return input
+      .split(";")
+      .map((item) => item.trim())
+      .filter((item) => item.length !== 0);
+  }
+
+  protected parseNumber(input: number | string | undefined): number | undefined {
+    if (input === undefined || input === null || input === "") {
+      return undefined;
+    }
+
+    const value = typeof input === "string" ? parseFloat(input) : input;
+
+    return isNaN(value) ? undefined : value;
+  }
+}
+
+export default (RED: NodeAPI): void => {
+  RED.nodes.registerType("qsys-page", function (this: Node<Config>, config: Config) {
+    RED.nodes.createNode(this, config);
+
+    new NodeHandler(this, config, RED);
+  });
+};
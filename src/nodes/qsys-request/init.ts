@@ -0,0 +1,59 @@
+import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
+
+declare const RED: EditorRED;
+
+interface Defaults extends EditorNodeProperties {
+  method: string;
+  params: string;
+  core: string;
+}
+
+RED.nodes.registerType("qsys-request", {
+  category: "Q-SYS",
+  paletteLabel: "Q-SYS Request",
+  color: "#1a7ab9",
+  icon: "qsys-request.svg",
+  inputs: 1,
+  outputs: 2,
+  outputLabels: ["response", "error"],
+  defaults: {
+    name: {
+      value: "Q-SYS Request",
+      required: false,
+    },
+    core: {
+      value: "",
+      type: "qsys-config",
+    },
+    method: {
+      value: "",
+      required: false,
+    },
+    params: {
+      value: "",
+      required: false,
+      validate: function (value: string) {
+        if (!value || value.trim() === "") {
+          return true;
+        }
+
+        try {
+          JSON.parse(value);
+        } catch {
+          return false;
+        }
+
+        return true;
+      },
+    },
+  },
+  label: function () {
+    return this.name || this.method || "Q-SYS Request";
+  },
+  oneditprepare: function () {
+    $("#node-input-params").typedInput({
+      default: "json",
+      types: ["json"],
+    });
+  },
+} as EditorNodeDef<Defaults>);
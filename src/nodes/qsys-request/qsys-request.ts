@@ -0,0 +1,152 @@
+import { Node, NodeAPI, NodeDef } from "node-red";
+import {
+  Config as QsysConfigNodeConfig,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
+  QsysConfigNode,
+  QsysMessage,
+  QsysResponse,
+} from "../qsys-config/qsys-config";
+import { NodeMessage, NodeStatus } from "@node-red/registry";
+
+export interface MessageIn extends NodeMessage {
+  method?: string;
+  params?: object;
+}
+
+export interface MessageOut extends NodeMessage {
+  method: string;
+  payload: QsysResponse | undefined;
+  error?: ErrorDetails;
+}
+
+export interface Config extends NodeDef {
+  core: string;
+  method: string;
+  params: string;
+}
+
+class NodeHandler {
+  protected node: Node<Config>;
+
+  protected config: Config;
+
+  protected nodeApi: NodeAPI;
+
+  protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
+
+  constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
+    this.node = node;
+    this.config = config;
+    this.nodeApi = nodeApi;
+    this.core = this.nodeApi.nodes.getNode(config.core) as QsysConfigNode<QsysConfigNodeConfig>;
+
+    this.core.nodeHandler.registerStatusCallback(this.node.id, (_socket, status, error) => {
+      const nodeStatus: NodeStatus = {
+        fill: "grey",
+        shape: "dot",
+        text: "",
+      };
+
+      switch (status) {
+        case "Inactive":
+          nodeStatus.fill = "grey";
+          nodeStatus.text = "Inactive.";
+          break;
+
+        case "Error":
+          nodeStatus.fill = "red";
+          nodeStatus.text = error instanceof Error ? error.message : "Failure.";
+          break;
+
+        case "Connected":
+        case "Active":
+          nodeStatus.fill = "green";
+          nodeStatus.text = "Connected.";
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
+        default:
+          break;
+      }
+
+      this.node.status(nodeStatus);
+    });
+
+    this.node.on("close", () => {
+      this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+    });
+
+    this.node.on("input", (msg, _send, done) => {
+      const message = msg as MessageIn;
+      const output = msg as MessageOut;
+      const method = (message.method ?? this.config.method)?.trim();
+
+      // the payload is replaced by the response, failed requests carry none
+      output.payload = undefined;
+
+      if (!method) {
+        handleError(this.node, new Error("No method has been selected."), output, {}, { errorOutput: 1 });
+
+        return done();
+      }
+
+      let params: object | undefined;
+      try {
+        params = message.params ?? this.parseParams(this.config.params);
+      } catch (e) {
+        handleError(
+          this.node,
+          new Error(`Invalid params: ${(e as Error).message}`),
+          output,
+          { method: method },
+          { errorOutput: 1 },
+        );
+
+        return done();
+      }
+
+      output.method = method;
+
+      const request: Partial<QsysMessage> = {
+        method: method,
+        params: params,
+      };
+
+      this.core?.nodeHandler
+        .send(request, getRequestOptions(msg))
+        .then((response) => {
+          output.payload = response;
+
+          this.node.send([output, null]);
+        })
+        .catch((e) => {
+          handleError(this.node, e, output, request, { errorOutput: 1 });
+        })
+        .finally(() => {
+          done();
+        });
+    });
+  }
+
+  protected parseParams(input: string | undefined): object | undefined {
+    if (!input || input.trim() === "") {
+      return undefined;
+    }
+
+    return JSON.parse(input) as object;
+  }
+}
+
+export default (RED: NodeAPI): void => {
+  RED.nodes.registerType("qsys-request", function (this: Node<Config>, config: Config) {
+    RED.nodes.createNode(this, config);
+
+    new NodeHandler(this, config, RED);
+  });
+};
@@ -1,18 +1,34 @@
 import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
+import { SnapshotAction } from "./qsys-snapshot";
+import { QSysResponseComonentsItem } from "../qsys-config/qsys-config";
 
 declare const RED: EditorRED;
 
 interface Defaults extends EditorNodeProperties {
   bank: string;
+  action: SnapshotAction;
+  number: number | undefined;
+  ramp: number | undefined;
+  track: 0 | 1 | undefined;
+  rate: number | undefined;
+  core: string;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
 }
 
+type AutoCompleteResult = {
+  value: string;
+  label: string;
+  i: number;
+};
+
 RED.nodes.registerType("qsys-snapshot", {
   category: "Q-SYS",
   paletteLabel: "Q-SYS Snapshot",
   color: "#1a7ab9",
   icon: "qsys-snapshot.svg",
   inputs: 1,
-  outputs: 0,
+  outputs: 1,
   defaults: {
     name: {
       value: "Q-SYS Snapshot",
@@ -26,8 +42,101 @@ RED.nodes.registerType("qsys-snapshot", {
       value: "",
       required: true,
     },
+    action: {
+      value: "Load",
+      required: true,
+    },
+    number: {
+      value: undefined,
+      required: false,
+      validate: function (value: string) {
+        return value === undefined || value === "" || (Number.isInteger(Number(value)) && Number(value) >= 1);
+      },
+    },
+    ramp: {
+      value: undefined,
+      required: false,
+    },
+    track: {
+      value: 0,
+      required: false,
+    },
+    rate: {
+      value: 0.5,
+      required: false,
+    },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
   },
   label: function () {
     return this.name || "Q-SYS Snapshot";
   },
+  oneditprepare: function () {
+    const actionField = document.getElementById("node-input-action") as HTMLSelectElement;
+    const actionChangeCallback = () => {
+      const element = document.getElementById("node-input-ramp")?.closest(".form-row") as HTMLDivElement | null;
+      if (element) {
+        element.style.display = actionField.value === "Load" ? "block" : "none";
+      }
+    };
+
+    actionField.addEventListener("change", actionChangeCallback);
+    actionChangeCallback();
+
+    const trackField = document.getElementById("node-input-track") as HTMLInputElement;
+    const trackChangeCallback = () => {
+      const element = document.getElementById("node-input-rate")?.closest(".form-row") as HTMLDivElement | null;
+      if (element) {
+        element.style.display = trackField.checked ? "block" : "none";
+      }
+    };
+
+    trackField.addEventListener("change", trackChangeCallback);
+    trackChangeCallback();
+
+    // @ts-expect-error using a node red function overlayed over jQuery - mind the big C!
+    $("#node-input-bank").autoComplete({
+      search: (value: string, done: (matches: AutoCompleteResult[]) => void) => {
+        if (!this.core) {
+          return;
+        }
+
+        return $.ajax({
+          url: `qsys/${this.core}/components`,
+          method: "GET",
+          data: {
+            type: "snapshot_controller",
+            name: value,
+          },
+        }).done((response: QSysResponseComonentsItem[]) => {
+          const matches: AutoCompleteResult[] = [];
+
+          response.forEach((component) => {
+            const i = component.Name.toLowerCase().indexOf(value.toLowerCase());
+            if (i > -1 && component.Type === "snapshot_controller") {
+              matches.push({
+                value: component.Name,
+                label: component.Name,
+                i: i,
+              });
+            }
+          });
+
+          matches.sort((a, b) => {
+            return a.i - b.i;
+          });
+
+          done(matches);
+        });
+      },
+    });
+  },
+  oneditsave: function () {
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
 } as EditorNodeDef<Defaults>);
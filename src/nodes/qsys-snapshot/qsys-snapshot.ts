@@ -1,18 +1,49 @@
 import { Node, NodeAPI, NodeDef } from "node-red";
-import { Config as QsysConfigNodeConfig, QSysApiError, QsysConfigNode, reserveId } from "../qsys-config/qsys-config";
+import {
+  ChangeListener,
+  Config as QsysConfigNodeConfig,
+  DesignChangeListener,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
+  QSysApiError,
+  QsysConfigNode,
+  QsysMessage,
+  QSysResponseComonentsControls,
+} from "../qsys-config/qsys-config";
 import { NodeMessage, NodeStatus } from "@node-red/registry";
 
-type SnapshotAction = "Save" | "Load";
+export type SnapshotAction = "Save" | "Load";
 
 export interface MessageIn extends NodeMessage {
+  action?: SnapshotAction;
+  payload: number | string | undefined;
+  ramp?: number;
+}
+
+export interface MessageOut extends NodeMessage {
   action: SnapshotAction;
-  payload: number;
+  bank: number;
   ramp?: number;
+  payload: boolean;
+  error?: ErrorDetails;
+}
+
+export interface SnapshotState {
+  bank: number | undefined;
+  modified: boolean;
+  matching: number[];
 }
 
 export interface Config extends NodeDef {
   core: string;
   bank: string;
+  action: SnapshotAction | undefined;
+  number: number | string | undefined;
+  ramp: number | string | undefined;
+  track: 0 | 1 | undefined;
+  rate: number | string | undefined;
+  errorOutput: 0 | 1 | undefined;
 }
 
 class NodeHandler {
@@ -24,6 +55,22 @@ class NodeHandler {
 
   protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
 
+  protected designChangeListener: DesignChangeListener;
+
+  protected bankCount: Promise<number | undefined> | undefined = undefined;
+
+  protected changeListener: ChangeListener | undefined = undefined;
+
+  protected subscribed: boolean = false;
+
+  protected matches: Map<number, boolean> = new Map<number, boolean>();
+
+  protected lastBank: number | undefined = undefined;
+
+  protected reportedState: string | undefined = undefined;
+
+  protected evaluation: NodeJS.Immediate | undefined = undefined;
+
   constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
     this.node = node;
     this.config = config;
@@ -52,6 +99,16 @@ class NodeHandler {
         case "Active":
           nodeStatus.fill = "green";
           nodeStatus.text = "Connected.";
+
+          // retry subscribing if the core has not been reachable before
+          if (this.config.track && !this.subscribed) {
+            this.subscribe();
+          }
+          break;
+
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
           break;
 
         default:
@@ -61,30 +118,243 @@ class NodeHandler {
       this.node.status(nodeStatus);
     });
 
-    this.node.on("close", () => {
+    this.core.nodeHandler.watchNames(this.node.id, { components: [this.config.bank] });
+
+    // the banks may have changed with the new design
+    this.designChangeListener = () => {
+      this.bankCount = undefined;
+
+      if (this.config.track) {
+        this.resubscribe();
+      }
+    };
+
+    this.core.nodeHandler.registerDesignChangeListener(this.designChangeListener);
+
+    this.node.on("close", (done: () => void) => {
       this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+      this.core?.nodeHandler.unregisterDesignChangeListener(this.designChangeListener);
+      this.core?.nodeHandler.unwatchNames(this.node.id);
+
+      if (this.evaluation) {
+        clearImmediate(this.evaluation);
+      }
+
+      if (!this.changeListener) {
+        return done();
+      }
+
+      this.core?.nodeHandler.unregisterChangeListener(this.changeListener);
+      this.core?.nodeHandler
+        .unregisterChangeGroup(this.node.id)
+        .catch((e) => {
+          this.node.debug(e);
+        })
+        .finally(() => {
+          done();
+        });
     });
 
-    this.node.on("input", (msg) => {
+    if (this.config.track) {
+      this.changeListener = (change, groupId) => {
+        if (groupId !== this.node.id) {
+          return;
+        }
+
+        const match = /^(match|last)(?:\.(\d+))?$/.exec(change.Name);
+        if (!match) {
+          return;
+        }
+
+        if (match[1] === "match" && match[2]) {
+          this.matches.set(parseInt(match[2], 10), this.toBool(change.Value));
+        } else if (match[2]) {
+          if (this.toBool(change.Value)) {
+            this.lastBank = parseInt(match[2], 10);
+          } else if (this.lastBank === parseInt(match[2], 10)) {
+            this.lastBank = undefined;
+          }
+        } else {
+          this.lastBank = parseInt(String(change.Value), 10) || undefined;
+        }
+
+        // a poll reports several controls at once, evaluate after all of them have been applied
+        this.evaluation ??= setImmediate(() => {
+          this.evaluation = undefined;
+          this.reportState();
+        });
+      };
+
+      this.core.nodeHandler.registerChangeListener(this.changeListener);
+      this.subscribe();
+    }
+
+    this.node.on("input", (msg, _send, done) => {
       const message = msg as MessageIn;
+      const output = msg as MessageOut;
 
-      const params = {
-        Name: this.config.bank,
-        Bank: message.payload,
-        Ramp: message.ramp,
+      output.action = message.action ?? this.config.action ?? "Load";
+      output.bank = this.parseNumber(message.payload ?? this.config.number) ?? NaN;
+      output.ramp = output.action === "Load" ? this.parseNumber(message.ramp ?? this.config.ramp) : undefined;
+
+      const request: Partial<QsysMessage> = {
+        method: `Snapshot.${output.action}`,
+        params: {
+          Name: this.config.bank,
+          Bank: output.bank,
+          Ramp: output.ramp,
+        },
       };
 
-      this.core?.nodeHandler
-        .send({
-          id: reserveId(),
-          method: `Snapshot.${message.action}`,
-          params: params,
+      this.validate(output.action, output.bank)
+        .then(() => {
+          return this.core?.nodeHandler.send(request, getRequestOptions(msg));
+        })
+        .then(() => {
+          output.payload = true;
+
+          this.node.send(output);
         })
         .catch((e) => {
-          this.node.error(e as Error | QSysApiError);
+          output.payload = false;
+
+          handleError(this.node, e, output, request, { errorOutput: this.config.errorOutput, forward: true });
+        })
+        .finally(() => {
+          done();
         });
     });
   }
+
+  protected resubscribe(): void {
+    this.core?.nodeHandler
+      .unregisterChangeGroup(this.node.id)
+      .catch((e) => {
+        this.node.debug(e);
+      })
+      .finally(() => {
+        this.subscribe();
+      });
+  }
+
+  protected subscribe(): void {
+    this.subscribed = true;
+
+    this.core?.nodeHandler
+      .send({
+        method: "Component.GetControls",
+        params: {
+          Name: this.config.bank,
+        },
+      })
+      .then((response) => {
+        const data = response as QSysResponseComonentsControls;
+        const controls = data.result.Controls.filter((control) => /^(match|last)(\.\d+)?$/.test(control.Name));
+
+        return this.core?.nodeHandler.registerChangeGroup({
+          Id: this.node.id,
+          Controls: [],
+          Components: [
+            {
+              Name: this.config.bank,
+              Controls: controls.map((control) => {
+                return {
+                  Name: control.Name,
+                };
+              }),
+            },
+          ],
+          Rate: this.parseNumber(this.config.rate) || 0.5,
+        });
+      })
+      .catch((e) => {
+        this.subscribed = false;
+        this.node.error(e as Error | QSysApiError);
+      });
+  }
+
+  protected reportState(): void {
+    const matching: number[] = [];
+    this.matches.forEach((matches, bank) => {
+      if (matches) {
+        matching.push(bank);
+      }
+    });
+
+    const state: SnapshotState = {
+      bank: this.lastBank,
+      modified: this.lastBank !== undefined && !this.matches.get(this.lastBank),
+      matching: matching.sort((a, b) => a - b),
+    };
+
+    // only report transitions of the loaded bank and its modification
+    const key = `${state.bank}:${state.modified}`;
+    if (key === this.reportedState) {
+      return;
+    }
+
+    this.reportedState = key;
+    this.node.send({
+      topic: "state",
+      payload: state,
+    });
+  }
+
+  protected toBool(input: unknown): boolean {
+    return input === true || input === "true" || (typeof input === "number" && input > 0);
+  }
+
+  protected async validate(action: SnapshotAction, bank: number): Promise<void> {
+    if (!["Load", "Save"].includes(action)) {
+      throw new Error(`Action '${action}' is not supported.`);
+    }
+
+    if (!Number.isInteger(bank) || bank < 1) {
+      throw new Error(`Bank '${bank}' is not supported.`);
+    }
+
+    const bankCount = await this.getBankCount();
+    if (bankCount !== undefined && bank > bankCount) {
+      throw new Error(`Bank '${bank}' exceeds the ${bankCount} banks of snapshot '${this.config.bank}'.`);
+    }
+  }
+
+  protected getBankCount(): Promise<number | undefined> {
+    if (this.bankCount) {
+      return this.bankCount;
+    }
+
+    // the snapshot component provides one load control per bank
+    this.bankCount = this.core!.nodeHandler.send({
+      method: "Component.GetControls",
+      params: {
+        Name: this.config.bank,
+      },
+    })
+      .then((response) => {
+        const data = response as QSysResponseComonentsControls;
+
+        return data.result.Controls.filter((control) => /^load\.\d+$/.test(control.Name)).length || undefined;
+      })
+      .catch((e) => {
+        this.bankCount = undefined;
+
+        // leave reporting an unknown component to the snapshot request
+        this.node.debug(e);
+
+        return undefined;
+      });
+
+    return this.bankCount;
+  }
+
+  protected parseNumber(input: number | string | undefined): number | undefined {
+    if (input === undefined || input === null || input === "") {
+      return undefined;
+    }
+
+    return typeof input === "string" ? Number(input) : input;
+  }
 }
 
 export default (RED: NodeAPI): void => {
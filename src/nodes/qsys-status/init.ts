@@ -2,7 +2,11 @@ import { EditorNodeDef, EditorNodeProperties, EditorRED } from "node-red";
 
 declare const RED: EditorRED;
 
-type Defaults = EditorNodeProperties;
+interface Defaults extends EditorNodeProperties {
+  push: 0 | 1 | undefined;
+  errorOutput: 0 | 1 | undefined;
+  outputs: number;
+}
 
 RED.nodes.registerType("qsys-status", {
   category: "Q-SYS",
@@ -20,8 +24,22 @@ RED.nodes.registerType("qsys-status", {
       value: "",
       type: "qsys-config",
     },
+    push: {
+      value: 0,
+      required: false,
+    },
+    errorOutput: {
+      value: 0,
+      required: false,
+    },
+    outputs: {
+      value: 1,
+    },
   },
   label: function () {
     return this.name || "Q-SYS Status";
   },
+  oneditsave: function () {
+    this.outputs = 1 + ($("#node-input-errorOutput").prop("checked") ? 1 : 0);
+  },
 } as EditorNodeDef<Defaults>);
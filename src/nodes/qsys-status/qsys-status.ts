@@ -1,16 +1,38 @@
 import { Node, NodeAPI, NodeDef } from "node-red";
 import {
   Config as QsysConfigNodeConfig,
-  QSysApiError,
+  ConnectionHealth,
+  DesignChangeListener,
+  ErrorDetails,
+  getRequestOptions,
+  handleError,
   QsysConfigNode,
+  QsysMessage,
   QsysResponse,
-  reserveId,
+  NotificationListener,
+  Status,
   StatusParams,
 } from "../qsys-config/qsys-config";
-import { NodeStatus } from "@node-red/registry";
+import { NodeMessage, NodeStatus } from "@node-red/registry";
 
 export interface Config extends NodeDef {
   core: string;
+  errorOutput: 0 | 1 | undefined;
+  push: 0 | 1 | undefined;
+}
+
+export interface MessageOut extends NodeMessage {
+  error?: ErrorDetails;
+}
+
+export interface HealthEvent extends ConnectionHealth {
+  event: "connection" | "engine";
+  designChanged: boolean;
+}
+
+export interface MessageHealth extends NodeMessage {
+  topic: Status | "EngineStatus";
+  payload: HealthEvent;
 }
 
 export interface QsysResponseStatus extends QsysResponse {
@@ -27,6 +49,16 @@ class NodeHandler {
 
   protected core: QsysConfigNode<QsysConfigNodeConfig> | undefined = undefined;
 
+  protected notificationListener: NotificationListener | undefined = undefined;
+
+  protected designChangeListener: DesignChangeListener | undefined = undefined;
+
+  protected designChanged: boolean = false;
+
+  protected lastStatus: Status | undefined = undefined;
+
+  protected lastErrorMessage: string | undefined = undefined;
+
   constructor(node: Node<Config>, config: Config, nodeApi: NodeAPI) {
     this.node = node;
     this.config = config;
@@ -57,34 +89,103 @@ class NodeHandler {
           nodeStatus.text = "Connected.";
           break;
 
+        case "Standby":
+          nodeStatus.fill = "yellow";
+          nodeStatus.text = error instanceof Error ? error.message : "Standby.";
+          break;
+
         default:
           break;
       }
 
       this.node.status(nodeStatus);
+
+      // reconnect attempts repeat the same state, only changes are reported
+      const errorMessage = error instanceof Error ? error.message : undefined;
+      const changed = status !== this.lastStatus || errorMessage !== this.lastErrorMessage;
+      this.lastStatus = status;
+      this.lastErrorMessage = errorMessage;
+
+      // an active core is reported by the EngineStatus it was derived from
+      if (this.config.push && changed && status !== "Active") {
+        this.emit("connection", status);
+      }
     });
 
+    if (this.config.push) {
+      // design changes are announced before the EngineStatus that carries them
+      this.designChangeListener = () => {
+        this.designChanged = true;
+
+        // a change found by the StatusGet after reconnecting is not followed by a push
+        setImmediate(() => {
+          this.designChanged = false;
+        });
+      };
+
+      this.core.nodeHandler.registerDesignChangeListener(this.designChangeListener);
+
+      this.notificationListener = (notification) => {
+        if (notification.method === "EngineStatus") {
+          this.emit("engine", "EngineStatus");
+        }
+      };
+
+      this.core.nodeHandler.registerNotificationListener(this.notificationListener);
+    }
+
     this.node.on("close", () => {
       this.core?.nodeHandler.unregisterStatusCallback(this.node.id);
+
+      if (this.notificationListener) {
+        this.core?.nodeHandler.unregisterNotificationListener(this.notificationListener);
+      }
+
+      if (this.designChangeListener) {
+        this.core?.nodeHandler.unregisterDesignChangeListener(this.designChangeListener);
+      }
     });
 
     this.node.on("input", (msg) => {
-      const id = reserveId();
+      const request: Partial<QsysMessage> = {
+        method: "StatusGet",
+      };
+
       void this.core?.nodeHandler
-        .send({
-          id: id,
-          method: "StatusGet",
-        })
+        .send(request, getRequestOptions(msg))
         .then((response) => {
           msg.payload = (response as QsysResponseStatus).result;
 
           this.node.send(msg);
         })
         .catch((e) => {
-          this.node.error(e as Error | QSysApiError);
+          handleError(this.node, e, msg, request, this.config);
         });
     });
   }
+
+  protected emit(event: HealthEvent["event"], topic: MessageHealth["topic"]): void {
+    const health = this.core?.nodeHandler.getHealth();
+    if (!health) {
+      return;
+    }
+
+    const designChanged = event === "engine" && this.designChanged;
+    if (event === "engine") {
+      this.designChanged = false;
+    }
+
+    const message: MessageHealth = {
+      topic: topic,
+      payload: {
+        event: event,
+        designChanged: designChanged,
+        ...health,
+      },
+    };
+
+    this.node.send(message);
+  }
 }
 
 export default (RED: NodeAPI): void => {
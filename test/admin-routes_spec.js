@@ -0,0 +1,92 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const { helper, waitFor, startEmulator, coreConfig } = require("./emulator");
+
+describe("admin routes", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+    await helper.load([configNode], [coreConfig(port)]);
+    await waitFor(() => helper.getNode("qsys").nodeHandler.getHealth().status === "Active");
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  it("lists the components of the design", async function () {
+    const response = await helper.request().get("/qsys/qsys/components").expect(200);
+
+    assert.deepStrictEqual(
+      response.body.map((component) => component.Name),
+      ["Gain_1", "Mixer_4x2", "Snapshot_Controller_1", "Loop_Player_1"],
+    );
+    assert.strictEqual(response.headers["x-total-count"], "4");
+  });
+
+  it("filters and paginates the components", async function () {
+    const response = await helper
+      .request()
+      .get("/qsys/qsys/components")
+      .query({ type: "gain,mixer", limit: 1, offset: 1, controls: 1 })
+      .expect(200);
+
+    assert.strictEqual(response.headers["x-total-count"], "2");
+    assert.strictEqual(response.body.length, 1);
+    assert.strictEqual(response.body[0].Name, "Mixer_4x2");
+    assert.ok(response.body[0].Controls.some((control) => control.Name === "input.4.output.2.gain"));
+  });
+
+  it("lists the controls of a component", async function () {
+    const response = await helper.request().get("/qsys/qsys/components/Gain_1/controls").expect(200);
+
+    assert.deepStrictEqual(
+      response.body.map((control) => [control.Name, control.Type]),
+      [
+        ["gain", "Float"],
+        ["mute", "Boolean"],
+      ],
+    );
+
+    await helper.request().get("/qsys/qsys/components/Unknown/controls").expect(404);
+  });
+
+  it("exports the inventory", async function () {
+    const json = await helper.request().get("/qsys/qsys/inventory").expect(200);
+
+    assert.deepStrictEqual(json.body[0], {
+      component: "Gain_1",
+      componentType: "gain",
+      control: "gain",
+      controlType: "Float",
+      direction: "Read/Write",
+      valueMin: -100,
+      valueMax: 20,
+      stringMin: "-100",
+      stringMax: "20",
+    });
+    assert.match(json.headers["content-disposition"], /filename="Core-inventory.json"/);
+
+    const csv = await helper.request().get("/qsys/qsys/inventory").query({ format: "csv" }).expect(200);
+    const lines = csv.text.split("\r\n");
+
+    assert.strictEqual(
+      lines[0],
+      "component,componentType,control,controlType,direction,valueMin,valueMax,stringMin,stringMax",
+    );
+    assert.strictEqual(lines[1], "Gain_1,gain,gain,Float,Read/Write,-100,20,-100,20");
+    assert.strictEqual(lines.length, json.body.length + 1);
+  });
+
+  it("answers unknown cores with 404", async function () {
+    await helper.request().get("/qsys/unknown/components").expect(404);
+  });
+});
@@ -0,0 +1,70 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const namedControlNode = require("../dist/nodes/qsys-named-control/qsys-named-control").default;
+const { helper, waitFor, startEmulator, coreConfig } = require("./emulator");
+const design = require("../examples/emulator-design.json");
+
+describe("design change", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  function withoutMainGain(designCode) {
+    return {
+      ...JSON.parse(JSON.stringify(design)),
+      DesignCode: designCode,
+      Controls: design.Controls.filter((control) => control.Name !== "MainGain"),
+    };
+  }
+
+  it("keeps reporting names missing in the design", async function () {
+    await helper.load(
+      [configNode, namedControlNode],
+      [coreConfig(port), { id: "control", type: "qsys-named-control", core: "qsys", codename: "MainGain" }],
+    );
+
+    const control = helper.getNode("control");
+    const statuses = [];
+    const warnings = [];
+    control.on("call:status", (call) => statuses.push(call.args[0]));
+    control.on("call:warn", (call) => warnings.push(call.args[0]));
+
+    await waitFor(() => helper.getNode("qsys").nodeHandler.getHealth().status === "Active");
+
+    emulator.loadDesign(withoutMainGain("emulator-demo-2"));
+    await waitFor(() => warnings.length !== 0);
+    await waitFor(() => statuses.length !== 0 && statuses[statuses.length - 1].fill === "yellow");
+
+    assert.match(warnings[0], /MainGain/);
+
+    // a status pushed by the core must not hide the missing names
+    statuses.length = 0;
+    emulator.setState("Active");
+    await waitFor(() => statuses.length !== 0);
+
+    assert.strictEqual(statuses[statuses.length - 1].text, "Missing in design: MainGain");
+
+    emulator.loadDesign({ ...JSON.parse(JSON.stringify(design)), DesignCode: "emulator-demo-3" });
+    await waitFor(() => statuses[statuses.length - 1].fill === "green");
+
+    statuses.length = 0;
+    emulator.setState("Active");
+    await waitFor(() => statuses.length !== 0);
+
+    assert.strictEqual(statuses[statuses.length - 1].fill, "green");
+    assert.strictEqual(warnings.length, 1);
+  });
+});
@@ -0,0 +1,61 @@
+const helper = require("node-red-node-test-helper");
+const { QsysEmulator } = require("../dist/emulator/qsys-emulator");
+const design = require("../examples/emulator-design.json");
+
+helper.init(require.resolve("node-red"));
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// polls the condition until it holds, the test's timeout applies otherwise
+async function waitFor(condition, interval = 20) {
+  while (!condition()) {
+    await sleep(interval);
+  }
+}
+
+async function startEmulator(options = {}) {
+  const emulator = new QsysEmulator(JSON.parse(JSON.stringify(design)), { port: 0, ...options });
+  const port = await emulator.start();
+
+  emulator.requests = [];
+  emulator.connections = 0;
+  emulator.on("request", (message) => emulator.requests.push(message));
+  emulator.on("connection", () => emulator.connections++);
+
+  return { emulator: emulator, port: port };
+}
+
+// restarts on the same port as a rebooted core would
+async function restartEmulator(previous, port) {
+  await previous.stop();
+
+  return (await startEmulator({ port: port })).emulator;
+}
+
+function requestsOf(emulator, method) {
+  return emulator.requests.filter((request) => request.method === method);
+}
+
+function coreConfig(port, config = {}) {
+  return {
+    id: "qsys",
+    type: "qsys-config",
+    name: "Core",
+    host: `127.0.0.1:${port}`,
+    reconnectDelay: 0.05,
+    reconnectDelayMax: 0.2,
+    ...config,
+  };
+}
+
+module.exports = {
+  helper,
+  sleep,
+  waitFor,
+  startEmulator,
+  restartEmulator,
+  requestsOf,
+  coreConfig,
+};
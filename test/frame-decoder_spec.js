@@ -0,0 +1,39 @@
+const assert = require("node:assert");
+const { FrameDecoder } = require("../dist/nodes/qsys-config/qsys-config");
+
+describe("FrameDecoder", function () {
+  it("keeps partial frames across chunks", function () {
+    const decoder = new FrameDecoder(1024, () => assert.fail("no frame exceeds the limit"));
+
+    assert.deepStrictEqual(decoder.push(Buffer.from('{"id":1,')), []);
+    assert.deepStrictEqual(decoder.push(Buffer.from('"result":true}\0{"id"')), ['{"id":1,"result":true}']);
+    assert.deepStrictEqual(decoder.push(Buffer.from(":2}\0")), ['{"id":2}']);
+  });
+
+  it("decodes multi-byte characters split across chunks", function () {
+    const decoder = new FrameDecoder(1024, () => assert.fail("no frame exceeds the limit"));
+    const data = Buffer.from('{"Name":"Großer Saal €"}\0');
+    const frames = [];
+
+    for (let i = 0; i < data.length; i++) {
+      frames.push(...decoder.push(data.subarray(i, i + 1)));
+    }
+
+    assert.deepStrictEqual(frames, ['{"Name":"Großer Saal €"}']);
+  });
+
+  it("ignores empty frames", function () {
+    const decoder = new FrameDecoder(1024, () => assert.fail("no frame exceeds the limit"));
+
+    assert.deepStrictEqual(decoder.push(Buffer.from('\0\0{"id":3}\0\0')), ['{"id":3}']);
+  });
+
+  it("drops frames exceeding the maximum size and recovers with the next one", function () {
+    const oversized = [];
+    const decoder = new FrameDecoder(16, (size) => oversized.push(size));
+
+    assert.deepStrictEqual(decoder.push(Buffer.from(`{"a":"${"x".repeat(20)}`)), []);
+    assert.deepStrictEqual(decoder.push(Buffer.from(`${"x".repeat(20)}"}\0{"id":4}\0`)), ['{"id":4}']);
+    assert.strictEqual(oversized.length, 1);
+  });
+});
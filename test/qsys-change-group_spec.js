@@ -0,0 +1,98 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const changeGroupNode = require("../dist/nodes/qsys-change-group/qsys-change-group").default;
+const { helper, waitFor, startEmulator, requestsOf, coreConfig } = require("./emulator");
+
+describe("qsys-change-group", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(config = {}, group = {}) {
+    await helper.load(
+      [configNode, changeGroupNode],
+      [
+        coreConfig(port, config),
+        {
+          id: "group",
+          type: "qsys-change-group",
+          core: "qsys",
+          controls: "MainGain;MainMute",
+          rate: 0.05,
+          wires: [["out"], ["error"]],
+          ...group,
+        },
+        { id: "out", type: "helper" },
+        { id: "error", type: "helper" },
+      ],
+    );
+
+    await waitFor(() => requestsOf(emulator, "ChangeGroup.AutoPoll").length !== 0);
+
+    return helper.getNode("group");
+  }
+
+  it("sends changes of the watched controls", async function () {
+    const changes = [];
+    await helper.load(
+      [configNode, changeGroupNode],
+      [
+        coreConfig(port),
+        {
+          id: "group",
+          type: "qsys-change-group",
+          core: "qsys",
+          controls: "MainGain",
+          component: "Gain_1",
+          componentControls: "mute",
+          rate: 0.05,
+          wires: [["out"]],
+        },
+        { id: "out", type: "helper" },
+      ],
+    );
+    helper.getNode("out").on("input", (msg) => changes.push(msg));
+
+    // the first poll reports the current values
+    await waitFor(() => changes.length === 2);
+    changes.length = 0;
+
+    emulator.setValue("MainGain", -20);
+    emulator.setValue("mute", true, "Gain_1");
+    await waitFor(() => changes.length === 2);
+
+    const byTopic = Object.fromEntries(changes.map((msg) => [msg.topic, msg.payload]));
+    assert.strictEqual(byTopic.MainGain.Value, -20);
+    assert.strictEqual(byTopic.MainGain.Component, undefined);
+    assert.strictEqual(byTopic["Gain_1.mute"].Value, true);
+    assert.strictEqual(byTopic["Gain_1.mute"].Component, "Gain_1");
+  });
+
+  it("sends failures to the error output", async function () {
+    const group = await load({ requestTimeout: 0.1 }, { errorOutput: 1 });
+
+    const errors = [];
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    emulator.pause();
+    group.receive({ topic: "refresh" });
+    await waitFor(() => errors.length !== 0);
+    emulator.resume();
+
+    assert.strictEqual(errors[0].topic, "refresh");
+    assert.strictEqual(errors[0].error.method, "ChangeGroup.Invalidate");
+  });
+});
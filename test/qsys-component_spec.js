@@ -0,0 +1,83 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const componentNode = require("../dist/nodes/qsys-component/qsys-component").default;
+const { helper, waitFor, startEmulator, coreConfig } = require("./emulator");
+
+describe("qsys-component", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(component = {}) {
+    const messages = [];
+    await helper.load(
+      [configNode, componentNode],
+      [
+        coreConfig(port),
+        {
+          id: "component",
+          type: "qsys-component",
+          core: "qsys",
+          codename: "Gain_1",
+          controls: "gain;mute",
+          method: "Get",
+          wires: [["out"], ["error"]],
+          ...component,
+        },
+        { id: "out", type: "helper" },
+        { id: "error", type: "helper" },
+      ],
+    );
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+
+    return { component: helper.getNode("component"), messages: messages };
+  }
+
+  it("reads the configured controls keyed by name", async function () {
+    emulator.setValue("gain", -6, "Gain_1");
+    const { component, messages } = await load();
+
+    component.receive({ payload: "read" });
+    await waitFor(() => messages.length !== 0);
+
+    assert.strictEqual(messages[0].payload.gain.Value, -6);
+    assert.strictEqual(messages[0].payload.mute.Value, false);
+  });
+
+  it("writes the values of the payload", async function () {
+    const { component, messages } = await load({ method: "Set" });
+
+    component.receive({ payload: { gain: -12, mute: true } });
+    await waitFor(() => messages.length !== 0);
+
+    assert.strictEqual(emulator.getValue("gain", "Gain_1"), -12);
+    assert.strictEqual(emulator.getValue("mute", "Gain_1"), true);
+    assert.deepStrictEqual(messages[0].payload.gain, { Name: "gain", Value: -12, Ramp: undefined });
+  });
+
+  it("sends unknown controls to the error output", async function () {
+    const { component } = await load({ errorOutput: 1 });
+
+    const errors = [];
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    component.receive({ payload: ["level"] });
+    await waitFor(() => errors.length !== 0);
+
+    assert.strictEqual(errors[0].error.method, "Component.Get");
+    assert.strictEqual(errors[0].error.code, 8);
+  });
+});
@@ -0,0 +1,282 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const changeGroupNode = require("../dist/nodes/qsys-change-group/qsys-change-group").default;
+const { helper, sleep, waitFor, startEmulator, restartEmulator, requestsOf, coreConfig } = require("./emulator");
+
+describe("qsys-config", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(config = {}, nodes = []) {
+    await helper.load([configNode, changeGroupNode], [coreConfig(port, config), ...nodes]);
+
+    const core = helper.getNode("qsys");
+    await waitFor(() => core.nodeHandler.getHealth().status !== undefined);
+
+    return core.nodeHandler;
+  }
+
+  it("reconnects and restores change groups", async function () {
+    await load({}, [
+      { id: "group", type: "qsys-change-group", core: "qsys", controls: "MainMute", rate: 0.05, wires: [["out"]] },
+      { id: "out", type: "helper" },
+    ]);
+
+    const changes = [];
+    helper.getNode("out").on("input", (msg) => changes.push(msg));
+    await waitFor(() => requestsOf(emulator, "ChangeGroup.AutoPoll").length !== 0);
+
+    emulator = await restartEmulator(emulator, port);
+    await waitFor(() => requestsOf(emulator, "ChangeGroup.AutoPoll").length !== 0);
+
+    emulator.setValue("MainMute", true);
+    await waitFor(() => changes.some((msg) => msg.payload.Value === true));
+  });
+
+  it("fails over to the partner of a redundant pair", async function () {
+    const { emulator: partner, port: partnerPort } = await startEmulator({ state: "Standby" });
+
+    try {
+      const handler = await load({ backupHost: `127.0.0.1:${partnerPort}` }, [
+        { id: "group", type: "qsys-change-group", core: "qsys", controls: "MainMute", rate: 0.05, wires: [["out"]] },
+        { id: "out", type: "helper" },
+      ]);
+
+      const changes = [];
+      helper.getNode("out").on("input", (msg) => changes.push(msg));
+      await waitFor(() => requestsOf(emulator, "ChangeGroup.AutoPoll").length !== 0);
+
+      partner.setState("Active");
+      emulator.setState("Standby");
+      await waitFor(() => requestsOf(partner, "ChangeGroup.AutoPoll").length !== 0);
+      await waitFor(() => handler.getHealth().status === "Active");
+
+      assert.strictEqual(handler.getHealth().host, `127.0.0.1:${partnerPort}`);
+
+      const requests = [requestsOf(emulator, "StatusGet").length, requestsOf(partner, "StatusGet").length];
+      await handler.send({ method: "StatusGet", params: 0 });
+      assert.deepStrictEqual(
+        [requestsOf(emulator, "StatusGet").length, requestsOf(partner, "StatusGet").length],
+        [requests[0], requests[1] + 1],
+      );
+
+      partner.setValue("MainMute", true);
+      await waitFor(() => changes.some((msg) => msg.payload.Value === true));
+    } finally {
+      await helper.unload();
+      await partner.stop();
+    }
+  });
+
+  it("does not connect again after the node has been closed", async function () {
+    const handler = await load();
+
+    await helper.getNode("qsys").close();
+    await waitFor(() => handler.connections.get("control").socket === undefined);
+    await assert.rejects(handler.send({ method: "StatusGet" }), /has been closed/);
+
+    await sleep(100);
+    assert.strictEqual(emulator.connections, 1);
+  });
+
+  it("reports the state of the core after logging on", async function () {
+    await emulator.stop();
+    ({ emulator, port } = await startEmulator({ username: "admin", password: "secret" }));
+
+    await helper.load([configNode], [coreConfig(port, { authentication: 1 })], {
+      qsys: { username: "admin", password: "secret" },
+    });
+
+    const handler = helper.getNode("qsys").nodeHandler;
+    await waitFor(() => handler.getHealth().status === "Active");
+  });
+
+  it("closes sockets rejected by a failed logon", async function () {
+    await emulator.stop();
+    ({ emulator, port } = await startEmulator({ username: "admin", password: "secret" }));
+
+    await helper.load([configNode], [coreConfig(port, { authentication: 1 })], {
+      qsys: { username: "admin", password: "wrong" },
+    });
+
+    const handler = helper.getNode("qsys").nodeHandler;
+    const states = [];
+    handler.registerStatusCallback("test", (_socket, status) => states.push(status));
+
+    await waitFor(() => emulator.connections >= 4);
+    await sleep(100);
+
+    assert.ok(emulator.sessions.size <= 1);
+    assert.ok(!states.includes("Active"));
+    assert.strictEqual(handler.getHealth().status, "Error");
+  });
+
+  it("closes a connection whose keep-alive requests are not answered", async function () {
+    const handler = await load({ keepAliveInterval: 0.05, keepAliveMaxMissed: 2 });
+    const states = [];
+    handler.registerStatusCallback("test", (_socket, status) => states.push(status));
+
+    emulator.pause();
+    await waitFor(() => states.includes("Inactive") || states.includes("Error"));
+
+    emulator.resume();
+    await waitFor(() => emulator.connections >= 2 && ["Connected", "Active"].includes(handler.getHealth().status));
+  });
+
+  it("limits the number of requests in flight", async function () {
+    const handler = await load({ maxInFlight: 2 });
+
+    emulator.pause();
+    const responses = Promise.all(
+      [1, 2, 3, 4, 5].map(() => handler.send({ method: "Control.Get", params: ["MainGain"] })),
+    );
+
+    await sleep(100);
+    assert.strictEqual(requestsOf(emulator, "Control.Get").length, 2);
+
+    emulator.resume();
+    assert.strictEqual((await responses).length, 5);
+    assert.strictEqual(requestsOf(emulator, "Control.Get").length, 5);
+  });
+
+  it("coalesces values of high-rate setters", async function () {
+    const handler = await load({ coalesce: 1, coalesceInterval: 0.2 });
+
+    await Promise.all(
+      [-20, -15, -10, -5, 0].map((value) => {
+        return handler.send({ method: "Control.Set", params: { Name: "MainGain", Value: value } });
+      }),
+    );
+
+    assert.strictEqual(requestsOf(emulator, "Control.Set").length, 2);
+    assert.strictEqual(emulator.getValue("MainGain"), 0);
+  });
+
+  it("sends coalesced values with the options of the latest one and releases them", async function () {
+    const handler = await load({ coalesce: 1, coalesceInterval: 0.1, requestTimeout: 2 });
+
+    emulator.pause();
+
+    const first = handler.send({ method: "Control.Set", params: { Name: "MainGain", Value: -10 } });
+    const latest = handler.send({ method: "Control.Set", params: { Name: "MainGain", Value: -5 } }, { timeout: 0.05 });
+    await assert.rejects(latest, /within 0.05 seconds/);
+
+    emulator.resume();
+    await first;
+
+    await waitFor(() => handler.coalescing.size === 0);
+  });
+
+  it("allocates request ids per connection and wraps around", async function () {
+    const handler = await load();
+    const connection = handler.connections.get("control");
+
+    await handler.send({ method: "StatusGet" });
+    const first = requestsOf(emulator, "StatusGet").pop().id;
+    await handler.send({ method: "StatusGet" });
+    assert.strictEqual(requestsOf(emulator, "StatusGet").pop().id, first + 1);
+
+    // ids still awaiting a response are skipped
+    connection.lastId = 0x7fffffff;
+    connection.inFlight.set(1, {});
+    await handler.send({ method: "StatusGet" });
+    connection.inFlight.delete(1);
+
+    assert.strictEqual(requestsOf(emulator, "StatusGet").pop().id, 2);
+  });
+
+  it("polls change groups on a dedicated connection", async function () {
+    const handler = await load({ pollingConnection: 1 }, [
+      { id: "group", type: "qsys-change-group", core: "qsys", controls: "MainMute", rate: 0.05 },
+    ]);
+
+    await waitFor(() => requestsOf(emulator, "ChangeGroup.AutoPoll").length !== 0);
+    await handler.send({ method: "StatusGet" });
+
+    assert.strictEqual(emulator.connections, 2);
+    assert.ok(handler.connections.get("polling").inFlight.size === 0);
+  });
+
+  it("times out and retries reading requests only", async function () {
+    const handler = await load({ requestTimeout: 0.1, requestRetries: 2 });
+
+    emulator.pause();
+
+    await assert.rejects(handler.send({ method: "Control.Get", params: ["MainGain"] }), /within 0.1 seconds/);
+    assert.strictEqual(requestsOf(emulator, "Control.Get").length, 3);
+
+    await assert.rejects(
+      handler.send({ method: "Control.Set", params: { Name: "MainGain", Value: 1 } }, { timeout: 0.05 }),
+      /within 0.05 seconds/,
+    );
+    assert.strictEqual(requestsOf(emulator, "Control.Set").length, 1);
+
+    // late responses are dropped as their requests have been cleaned up
+    assert.strictEqual(handler.connections.get("control").inFlight.size, 0);
+    emulator.resume();
+    await sleep(50);
+  });
+
+  it("does not retry after the node has been closed", async function () {
+    const handler = await load({ requestTimeout: 0.1, requestRetries: 3 });
+
+    emulator.pause();
+
+    const response = handler.send({ method: "Control.Get", params: ["MainGain"] });
+    await waitFor(() => handler.retries.size !== 0);
+
+    await helper.getNode("qsys").close();
+    await assert.rejects(response, /has been closed/);
+
+    await sleep(300);
+    assert.strictEqual(emulator.connections, 1);
+    assert.strictEqual(requestsOf(emulator, "Control.Get").length, 1);
+  });
+
+  it("replays buffered writes after reconnecting", async function () {
+    const handler = await load({ bufferOffline: 1, bufferMaxAge: 5 });
+
+    await emulator.stop();
+    await waitFor(() => ["Inactive", "Error"].includes(handler.getHealth().status));
+
+    const writes = Promise.all(
+      [-30, -20, -6].map((value) => {
+        return handler.send({ method: "Control.Set", params: { Name: "MainGain", Value: value } });
+      }),
+    );
+    assert.strictEqual(handler.getHealth().bufferedRequests, 1);
+
+    emulator = await restartEmulator(emulator, port);
+    await writes;
+
+    assert.strictEqual(requestsOf(emulator, "Control.Set").length, 1);
+    assert.strictEqual(emulator.getValue("MainGain"), -6);
+  });
+
+  it("discards buffered writes after their maximum age", async function () {
+    const handler = await load({ bufferOffline: 1, bufferMaxAge: 0.1, reconnectDelay: 5, reconnectDelayMax: 5 });
+
+    await emulator.stop();
+    await waitFor(() => ["Inactive", "Error"].includes(handler.getHealth().status));
+
+    await assert.rejects(
+      handler.send({ method: "Control.Set", params: { Name: "MainGain", Value: 1 } }),
+      /not reachable within 0.1 seconds/,
+    );
+    assert.strictEqual(handler.getHealth().bufferedRequests, 0);
+  });
+});
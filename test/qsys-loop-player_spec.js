@@ -0,0 +1,100 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const loopPlayerNode = require("../dist/nodes/qsys-loop-player/qsys-loop-player").default;
+const { helper, waitFor, startEmulator, requestsOf, coreConfig } = require("./emulator");
+
+describe("qsys-loop-player", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(loopPlayer = {}) {
+    const messages = [];
+    const errors = [];
+    await helper.load(
+      [configNode, loopPlayerNode],
+      [
+        coreConfig(port),
+        {
+          id: "player",
+          type: "qsys-loop-player",
+          core: "qsys",
+          codename: "Loop_Player_1",
+          action: "Start",
+          files: [{ Name: "Audio/music.wav", Mode: "mono", Output: 1 }],
+          loop: true,
+          wires: [["out"], ["error"]],
+          ...loopPlayer,
+        },
+        { id: "out", type: "helper" },
+        { id: "error", type: "helper" },
+      ],
+    );
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    return { player: helper.getNode("player"), messages: messages, errors: errors };
+  }
+
+  it("starts and stops the configured files", async function () {
+    const { player, messages } = await load();
+
+    player.receive({});
+    await waitFor(() => messages.length === 1);
+
+    assert.strictEqual(messages[0].topic, "LoopPlayer.Start");
+    assert.strictEqual(messages[0].payload, true);
+    assert.deepStrictEqual(requestsOf(emulator, "LoopPlayer.Start")[0].params.Files, [
+      { Name: "Audio/music.wav", Mode: "mono", Output: 1 },
+    ]);
+    assert.strictEqual(emulator.getValue("output.1.file", "Loop_Player_1"), "Audio/music.wav");
+    assert.strictEqual(emulator.getValue("output.1.playing", "Loop_Player_1"), true);
+
+    player.receive({ action: "Stop" });
+    await waitFor(() => messages.length === 2);
+
+    assert.strictEqual(messages[1].topic, "LoopPlayer.Stop");
+    assert.deepStrictEqual(requestsOf(emulator, "LoopPlayer.Stop")[0].params.Outputs, [1]);
+    assert.strictEqual(emulator.getValue("output.1.playing", "Loop_Player_1"), false);
+  });
+
+  it("reports errors pushed for running jobs", async function () {
+    const { player, messages } = await load();
+
+    player.receive({ files: [{ Name: "Audio/missing.wav", Output: 2 }] });
+    await waitFor(() => messages.length === 2);
+
+    assert.strictEqual(messages[0].topic, "LoopPlayer.Start");
+    assert.strictEqual(messages[1].topic, "LoopPlayer.Error");
+    assert.deepStrictEqual(messages[1].payload, {
+      Name: "Loop_Player_1",
+      Output: 2,
+      Error: "File not found: Audio/missing.wav",
+    });
+  });
+
+  it("sends rejected requests to the error output", async function () {
+    const { player, messages, errors } = await load({ errorOutput: 1 });
+
+    player.receive({ files: [{ Name: "Audio/music.wav", Output: 3 }] });
+    await waitFor(() => errors.length !== 0);
+
+    assert.strictEqual(errors[0].payload, false);
+    assert.strictEqual(errors[0].error.method, "LoopPlayer.Start");
+    assert.strictEqual(errors[0].error.code, -32602);
+    assert.strictEqual(messages.length, 0);
+  });
+});
@@ -0,0 +1,117 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const mixerNode = require("../dist/nodes/qsys-mixer/qsys-mixer").default;
+const { helper, waitFor, startEmulator, requestsOf, coreConfig } = require("./emulator");
+
+describe("qsys-mixer", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(config = {}, mixer = {}, nodes = []) {
+    await helper.load(
+      [configNode, mixerNode],
+      [
+        coreConfig(port, config),
+        {
+          id: "mixer",
+          type: "qsys-mixer",
+          core: "qsys",
+          codename: "Mixer_4x2",
+          method: "SetInputGain",
+          ins: "1",
+          ...mixer,
+        },
+        ...nodes,
+      ],
+    );
+
+    return helper.getNode("mixer");
+  }
+
+  it("sets numeric gains given as number or string", async function () {
+    const mixer = await load();
+
+    mixer.receive({ payload: -12.5 });
+    await waitFor(() => emulator.getValue("input.1.gain", "Mixer_4x2") === -12.5);
+
+    mixer.receive({ payload: "5" });
+    await waitFor(() => emulator.getValue("input.1.gain", "Mixer_4x2") === 5);
+  });
+
+  it("reads the state of the selected channels", async function () {
+    emulator.setValue("input.2.output.1.gain", -3, "Mixer_4x2");
+    emulator.setValue("input.2.mute", true, "Mixer_4x2");
+    emulator.setValue("output.2.gain", -9, "Mixer_4x2");
+
+    const mixer = await load({}, { ins: "2", outs: "1", wires: [["out"]] }, [{ id: "out", type: "helper" }]);
+    const messages = [];
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+
+    mixer.receive({ method: "GetCrossPoints" });
+    await waitFor(() => messages.length === 1);
+
+    assert.deepStrictEqual(messages[0].payload, {
+      crosspoints: { 2: { 1: { gain: -3, mute: false, solo: false, delay: 0 } } },
+    });
+
+    mixer.receive({ method: "GetInputs" });
+    await waitFor(() => messages.length === 2);
+
+    assert.deepStrictEqual(messages[1].payload, { inputs: { 2: { gain: 0, mute: true, solo: false } } });
+
+    mixer.receive({ method: "GetAll", ins: "*", outs: "*", cues: "*" });
+    await waitFor(() => messages.length === 3);
+
+    assert.strictEqual(Object.keys(messages[2].payload.crosspoints).length, 4);
+    assert.strictEqual(messages[2].payload.outputs[2].gain, -9);
+    assert.deepStrictEqual(messages[2].payload.cues, { 1: { gain: 0, mute: false } });
+    assert.deepStrictEqual(messages[2].payload.inputCues[1], { 1: { enable: false, afl: false } });
+  });
+
+  it("reports changes of the watched channels", async function () {
+    const mixer = await load({}, { ins: "1", outs: "2", subscribe: 1, rate: 0.05, wires: [["out"]] }, [
+      { id: "out", type: "helper" },
+    ]);
+    const messages = [];
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+
+    await waitFor(() => requestsOf(emulator, "ChangeGroup.AutoPoll").length !== 0);
+    await waitFor(() => messages.length !== 0);
+    messages.length = 0;
+
+    emulator.setValue("input.1.output.2.mute", true, "Mixer_4x2");
+    // channels outside of the selection are not reported
+    emulator.setValue("input.3.output.2.mute", true, "Mixer_4x2");
+    mixer.receive({ payload: -20 });
+    await waitFor(() => messages.length === 2);
+
+    const byTopic = Object.fromEntries(messages.map((msg) => [msg.topic, msg.payload]));
+    assert.deepStrictEqual(byTopic, {
+      "input.1.output.2.mute": { type: "crosspoint", in: 1, out: 2, property: "mute", value: true },
+      "input.1.gain": { type: "input", in: 1, property: "gain", value: -20 },
+    });
+  });
+
+  it("coalesces gains of faders", async function () {
+    const mixer = await load({ coalesce: 1, coalesceInterval: 0.2 });
+
+    [-40, -30, -20, -10].forEach((value) => mixer.receive({ payload: value }));
+    await waitFor(() => emulator.getValue("input.1.gain", "Mixer_4x2") === -10);
+
+    assert.strictEqual(requestsOf(emulator, "Mixer.SetInputGain").length, 2);
+  });
+});
@@ -0,0 +1,109 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const pageNode = require("../dist/nodes/qsys-page/qsys-page").default;
+const { helper, waitFor, startEmulator, requestsOf, coreConfig } = require("./emulator");
+
+describe("qsys-page", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(page = {}) {
+    const messages = [];
+    const statuses = [];
+    const errors = [];
+    await helper.load(
+      [configNode, pageNode],
+      [
+        coreConfig(port),
+        {
+          id: "page",
+          type: "qsys-page",
+          core: "qsys",
+          action: "Submit",
+          mode: "message",
+          zones: "1;2",
+          zoneTags: "",
+          priority: 2,
+          message: "Messages/closing.wav",
+          wires: [["out"], ["status"], ["error"]],
+          ...page,
+        },
+        { id: "out", type: "helper" },
+        { id: "status", type: "helper" },
+        { id: "error", type: "helper" },
+      ],
+    );
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+    helper.getNode("status").on("input", (msg) => statuses.push(msg));
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    return { page: helper.getNode("page"), messages: messages, statuses: statuses, errors: errors };
+  }
+
+  it("submits a message page and follows its status", async function () {
+    const { page, messages, statuses } = await load();
+
+    page.receive({});
+    await waitFor(() => messages.length === 1 && statuses.length === 1);
+
+    const pageId = messages[0].pageId;
+    assert.strictEqual(messages[0].topic, "PA.PageSubmit");
+    assert.strictEqual(messages[0].payload, true);
+    assert.strictEqual(typeof pageId, "number");
+    assert.deepStrictEqual(requestsOf(emulator, "PA.PageSubmit")[0].params.Zones, [1, 2]);
+    assert.deepStrictEqual(statuses[0].payload, { PageID: pageId, State: "playing" });
+
+    // the last submitted page is stopped
+    page.receive({ action: "Stop" });
+    await waitFor(() => messages.length === 2 && statuses.length === 2);
+
+    assert.strictEqual(messages[1].pageId, pageId);
+    assert.strictEqual(statuses[1].pageId, pageId);
+    assert.strictEqual(statuses[1].payload.State, "done");
+  });
+
+  it("starts a live page once requested", async function () {
+    const { page, messages, statuses } = await load({ mode: "live", station: 1, start: false });
+
+    page.receive({});
+    await waitFor(() => statuses.length === 1);
+
+    assert.strictEqual(statuses[0].payload.State, "queued");
+
+    page.receive({ action: "Start" });
+    await waitFor(() => statuses.length === 2);
+
+    assert.strictEqual(statuses[1].payload.State, "playing");
+
+    page.receive({ action: "Cancel" });
+    await waitFor(() => statuses.length === 3);
+
+    assert.strictEqual(statuses[2].payload.State, "cancelled");
+    assert.strictEqual(messages.length, 3);
+  });
+
+  it("sends rejected pages to the error output", async function () {
+    const { page, errors } = await load({ zones: "", zoneTags: "Kitchen", errorOutput: 1 });
+
+    page.receive({});
+    await waitFor(() => errors.length !== 0);
+
+    assert.strictEqual(errors[0].payload, false);
+    assert.strictEqual(errors[0].error.method, "PA.PageSubmit");
+    assert.strictEqual(errors[0].error.code, -32602);
+  });
+});
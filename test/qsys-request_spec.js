@@ -0,0 +1,86 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const requestNode = require("../dist/nodes/qsys-request/qsys-request").default;
+const { helper, waitFor, startEmulator, coreConfig } = require("./emulator");
+
+describe("qsys-request", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(request = {}) {
+    const messages = [];
+    const errors = [];
+    await helper.load(
+      [configNode, requestNode],
+      [
+        coreConfig(port),
+        {
+          id: "request",
+          type: "qsys-request",
+          core: "qsys",
+          method: "Control.Get",
+          params: '["MainGain", "RoomName"]',
+          wires: [["out"], ["error"]],
+          ...request,
+        },
+        { id: "out", type: "helper" },
+        { id: "error", type: "helper" },
+      ],
+    );
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    return { request: helper.getNode("request"), messages: messages, errors: errors };
+  }
+
+  it("sends the response of the core", async function () {
+    const { request, messages } = await load();
+
+    request.receive({ payload: "read" });
+    await waitFor(() => messages.length !== 0);
+
+    assert.strictEqual(messages[0].method, "Control.Get");
+    assert.deepStrictEqual(
+      messages[0].payload.result.map((control) => [control.Name, control.Value]),
+      [
+        ["MainGain", -10],
+        ["RoomName", "Conference Room"],
+      ],
+    );
+  });
+
+  it("sends the params of the message", async function () {
+    const { request, messages } = await load();
+
+    request.receive({ method: "Control.Set", params: { Name: "MainMute", Value: true } });
+    await waitFor(() => messages.length !== 0);
+
+    assert.strictEqual(messages[0].method, "Control.Set");
+    assert.strictEqual(emulator.getValue("MainMute"), true);
+  });
+
+  it("sends errors of the core to the error output", async function () {
+    const { request, messages, errors } = await load({ params: '["Unknown"]' });
+
+    request.receive({});
+    await waitFor(() => errors.length !== 0);
+
+    assert.strictEqual(errors[0].payload, undefined);
+    assert.strictEqual(errors[0].error.code, 8);
+    assert.strictEqual(messages.length, 0);
+  });
+});
@@ -0,0 +1,94 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const snapshotNode = require("../dist/nodes/qsys-snapshot/qsys-snapshot").default;
+const { helper, waitFor, startEmulator, requestsOf, coreConfig } = require("./emulator");
+
+describe("qsys-snapshot", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(snapshot = {}) {
+    const messages = [];
+    const errors = [];
+    await helper.load(
+      [configNode, snapshotNode],
+      [
+        coreConfig(port),
+        {
+          id: "snapshot",
+          type: "qsys-snapshot",
+          core: "qsys",
+          bank: "Snapshot_Controller_1",
+          action: "Load",
+          number: 1,
+          wires: [["out"], ["error"]],
+          ...snapshot,
+        },
+        { id: "out", type: "helper" },
+        { id: "error", type: "helper" },
+      ],
+    );
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    return { snapshot: helper.getNode("snapshot"), messages: messages, errors: errors };
+  }
+
+  it("loads the given bank", async function () {
+    const { snapshot, messages } = await load();
+
+    snapshot.receive({ payload: 3, ramp: 2 });
+    await waitFor(() => messages.length !== 0);
+
+    assert.strictEqual(messages[0].payload, true);
+    assert.strictEqual(messages[0].bank, 3);
+    assert.deepStrictEqual(requestsOf(emulator, "Snapshot.Load")[0].params, {
+      Name: "Snapshot_Controller_1",
+      Bank: 3,
+      Ramp: 2,
+    });
+    assert.strictEqual(emulator.getValue("last.3", "Snapshot_Controller_1"), true);
+  });
+
+  it("rejects banks the snapshot does not provide", async function () {
+    const { snapshot, errors } = await load({ errorOutput: 1 });
+
+    snapshot.receive({ payload: 9 });
+    await waitFor(() => errors.length !== 0);
+
+    assert.strictEqual(errors[0].payload, false);
+    assert.match(errors[0].error.message, /exceeds the 8 banks/);
+    assert.strictEqual(requestsOf(emulator, "Snapshot.Load").length, 0);
+  });
+
+  it("tracks the loaded bank and its modification", async function () {
+    const { snapshot, messages } = await load({ track: 1, rate: 0.05 });
+
+    const states = () => messages.filter((msg) => msg.topic === "state").map((msg) => msg.payload);
+
+    snapshot.receive({ payload: 2 });
+    await waitFor(() => states().some((state) => state.bank === 2));
+
+    assert.deepStrictEqual(states().pop(), { bank: 2, modified: false, matching: [2] });
+
+    // a control of the snapshot has been changed on the core
+    emulator.setValue("match.2", false, "Snapshot_Controller_1");
+    await waitFor(() => states().pop().modified);
+
+    assert.deepStrictEqual(states().pop(), { bank: 2, modified: true, matching: [] });
+  });
+});
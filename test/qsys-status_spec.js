@@ -0,0 +1,101 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const statusNode = require("../dist/nodes/qsys-status/qsys-status").default;
+const { helper, sleep, waitFor, startEmulator, coreConfig } = require("./emulator");
+const design = require("../examples/emulator-design.json");
+
+describe("qsys-status", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  async function load(config = {}, credentials = {}) {
+    await helper.load(
+      [configNode, statusNode],
+      [
+        coreConfig(port, config),
+        { id: "status", type: "qsys-status", core: "qsys", push: 1, wires: [["out"]] },
+        { id: "out", type: "helper" },
+      ],
+      credentials,
+    );
+
+    const messages = [];
+    helper.getNode("out").on("input", (msg) => messages.push(msg));
+
+    return messages;
+  }
+
+  it("emits one message per EngineStatus and flags design changes", async function () {
+    const messages = await load();
+
+    await waitFor(() => messages.some((msg) => msg.topic === "EngineStatus"));
+    await sleep(50);
+
+    assert.deepStrictEqual(
+      messages.map((msg) => msg.topic),
+      ["Connected", "EngineStatus"],
+    );
+
+    messages.length = 0;
+    emulator.setState("Active");
+    await waitFor(() => messages.length !== 0);
+
+    emulator.loadDesign({ ...JSON.parse(JSON.stringify(design)), DesignCode: "emulator-demo-2" });
+    await waitFor(() => messages.length === 2);
+    await sleep(50);
+
+    assert.deepStrictEqual(
+      messages.map((msg) => [msg.topic, msg.payload.event, msg.payload.designChanged]),
+      [
+        ["EngineStatus", "engine", false],
+        ["EngineStatus", "engine", true],
+      ],
+    );
+  });
+
+  it("reports repeated reconnect attempts only once", async function () {
+    const messages = await load();
+    await waitFor(() => messages.some((msg) => msg.topic === "EngineStatus"));
+
+    messages.length = 0;
+    await emulator.stop();
+    await waitFor(() => helper.getNode("qsys").nodeHandler.connections.get("control").reconnectAttempts >= 4);
+
+    assert.deepStrictEqual(
+      messages.map((msg) => msg.topic),
+      ["Inactive", "Error"],
+    );
+  });
+
+  it("does not keep a design change found after reconnecting", async function () {
+    await emulator.stop();
+    ({ emulator, port } = await startEmulator({ username: "admin", password: "secret" }));
+
+    const messages = await load({ authentication: 1 }, { qsys: { username: "admin", password: "secret" } });
+    await waitFor(() => helper.getNode("qsys").nodeHandler.getHealth().status === "Active");
+
+    // the core restarts with the new design, its push arrives before the logon and is not applied
+    emulator.loadDesign({ ...JSON.parse(JSON.stringify(design)), DesignCode: "emulator-demo-2" }, true);
+    await waitFor(() => helper.getNode("qsys").nodeHandler.getHealth().engine?.DesignCode === "emulator-demo-2");
+
+    messages.length = 0;
+    emulator.setState("Active");
+    await waitFor(() => messages.some((msg) => msg.topic === "EngineStatus"));
+
+    assert.strictEqual(messages.find((msg) => msg.topic === "EngineStatus").payload.designChanged, false);
+  });
+});
@@ -0,0 +1,74 @@
+const assert = require("node:assert");
+const configNode = require("../dist/nodes/qsys-config/qsys-config").default;
+const componentNode = require("../dist/nodes/qsys-component/qsys-component").default;
+const requestNode = require("../dist/nodes/qsys-request/qsys-request").default;
+const { helper, waitFor, startEmulator, coreConfig } = require("./emulator");
+
+describe("invalid input", function () {
+  this.timeout(5000);
+
+  let emulator;
+  let port;
+
+  beforeEach(async function () {
+    ({ emulator, port } = await startEmulator());
+
+    await new Promise((resolve) => helper.startServer(resolve));
+  });
+
+  afterEach(async function () {
+    await helper.unload();
+    await new Promise((resolve) => helper.stopServer(resolve));
+    await emulator.stop();
+  });
+
+  it("is reported with the triggering message", async function () {
+    await helper.load(
+      [configNode, componentNode],
+      [
+        coreConfig(port),
+        { id: "component", type: "qsys-component", core: "qsys", codename: "Gain_1", controls: "gain", method: "Set" },
+      ],
+    );
+
+    const component = helper.getNode("component");
+    const errors = [];
+    component.on("call:error", (call) => errors.push(call.args[1]));
+
+    component.receive({ payload: [1, 2], topic: "fader" });
+    await waitFor(() => errors.length !== 0);
+
+    assert.strictEqual(errors[0].topic, "fader");
+    assert.strictEqual(errors[0].error.method, "Component.Set");
+    assert.match(errors[0].error.message, /is not supported/);
+  });
+
+  it("is sent to the error output", async function () {
+    await helper.load(
+      [configNode, requestNode],
+      [
+        coreConfig(port),
+        {
+          id: "request",
+          type: "qsys-request",
+          core: "qsys",
+          method: "Control.Get",
+          params: "{",
+          wires: [[], ["error"]],
+        },
+        { id: "error", type: "helper" },
+      ],
+    );
+
+    const errors = [];
+    helper.getNode("error").on("input", (msg) => errors.push(msg));
+
+    helper.getNode("request").receive({});
+    helper.getNode("request").receive({ method: " " });
+    await waitFor(() => errors.length === 2);
+
+    assert.match(errors[0].error.message, /^Invalid params/);
+    assert.strictEqual(errors[0].error.method, "Control.Get");
+    assert.strictEqual(errors[1].error.message, "No method has been selected.");
+  });
+});